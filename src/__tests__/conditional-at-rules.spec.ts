@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import {
+  extractAtRuleBlocks,
+  getImportConditionPreludes,
+  getInnermostRule,
+} from '../styles/cssUtils'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Conditional At-Rule Tests
+ *
+ * Tests for keeping the context of hoisted at-rules:
+ * - Rules nested in @media, @supports and @layer keep those wrappers
+ * - @import conditions and the media of <style> and <link> elements wrap the collected rules
+ * - Wrapped @font-face rules are still reported as font-face rules
+ */
+describe('Conditional at-rules', () => {
+  let ctx: ShadowTestContext
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    document.getElementById('conditional-fonts')?.remove()
+  })
+
+  it('keeps the grouping rules around nested blocks', () => {
+    const css = `/* don't hoist { */
+      @font-face { font-family: Plain; src: url("a{b}.woff2"); }
+      @media print {
+        h1 { content: "}"; }
+        @supports (font-tech(variations)) {
+          @font-face { font-family: Print; }
+        }
+      }
+      @layer   base { @font-face { font-family: Layered; } }
+      @container card (width > 20em) { @font-face { font-family: Contained; } }`
+
+    expect(extractAtRuleBlocks(css, ['font-face'])).toEqual([
+      '@font-face { font-family: Plain; src: url("a{b}.woff2"); }',
+      '@media print { @supports (font-tech(variations)) { @font-face { font-family: Print; } } }',
+      '@layer base { @font-face { font-family: Layered; } }',
+      '@font-face { font-family: Contained; }',
+    ])
+    expect(getInnermostRule('@media print { @layer x { @font-face { a: b; } } }')).toBe(
+      '@font-face { a: b; }',
+    )
+  })
+
+  it('converts @import conditions into grouping rules', () => {
+    expect(
+      getImportConditionPreludes(' layer(base) supports(display: grid) screen, print'),
+    ).toEqual(['@layer base', '@supports (display: grid)', '@media screen, print'])
+    expect(getImportConditionPreludes('layer supports((a: b) and (c: d))')).toEqual([
+      '@layer',
+      '@supports ((a: b) and (c: d))',
+    ])
+    expect(getImportConditionPreludes('')).toEqual([])
+  })
+
+  it('applies @import conditions and style media to hoisted rules', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async (url: string) =>
+          new Response(
+            `@font-face { font-family: ${url.endsWith('print.css') ? 'Linked' : 'Imported'}; }`,
+          ),
+      ),
+    )
+    vi.stubGlobal('matchMedia', () => ({ matches: false }))
+
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<style>@import url(/fonts.css) layer(fonts) print;</style>
+      <style media="(min-width: 40em)">@font-face { font-family: Wide; }</style>
+      <link rel="stylesheet" href="/print.css" media="print">`,
+      { fontFaceOptions: { styleElementId: 'conditional-fonts' } },
+    )
+
+    expect(result.fontFaceRules).toEqual([
+      '@layer fonts { @media print { @font-face { font-family: Imported; } } }',
+      '@media (min-width: 40em) { @font-face { font-family: Wide; } }',
+      '@media print { @font-face { font-family: Linked; } }',
+    ])
+    expect(document.getElementById('conditional-fonts')?.textContent).toContain(
+      '@layer fonts { @media print {',
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Content Security Policy Tests
+ *
+ * Tests for rendering on pages with a locked-down CSP:
+ * - HTML, script text and script URLs pass through the Trusted Types policy
+ * - Named policies are created once
+ * - The nonce reaches recreated scripts, rendered and injected styles
+ */
+describe('Content Security Policy', () => {
+  let ctx: ShadowTestContext
+  let target: HTMLElement
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    clearElement(target)
+    target.remove()
+  })
+
+  it('passes HTML and scripts through the Trusted Types policy', async () => {
+    const policy = {
+      createHTML: vi.fn((input: string) => input),
+      createScript: vi.fn((input: string) => input),
+      createScriptURL: vi.fn((input: string) => input),
+    }
+
+    const result = await renderDirectly(
+      target,
+      `<p>Hi</p><script>window.ttRan = true</script><script src="/app.js" async></script>`,
+      { trustedTypes: policy },
+    )
+
+    expect(policy.createHTML).toHaveBeenCalledWith(expect.stringContaining('<p>Hi</p>'))
+    expect(policy.createScript).toHaveBeenCalledWith('window.ttRan = true')
+    expect(policy.createScriptURL).toHaveBeenCalledWith('/app.js')
+    expect(result.scripts[0].status).toBe('executed')
+  })
+
+  it('passes inert copies of skipped scripts through the policy', async () => {
+    const policy = {
+      createHTML: vi.fn((input: string) => input),
+      createScript: vi.fn((input: string) => `/* trusted */${input}`),
+      createScriptURL: vi.fn((input: string) => input),
+    }
+
+    const result = await renderDirectly(
+      target,
+      `<script>window.skipped = true</script><script src="/skipped.js"></script>`,
+      { trustedTypes: policy, beforeScriptExecute: () => false },
+    )
+
+    expect(result.scripts.map((r) => r.status)).toEqual(['skipped', 'skipped'])
+    expect(policy.createScriptURL).toHaveBeenCalledWith('/skipped.js')
+    expect(target.querySelector('script')?.textContent).toBe('/* trusted */window.skipped = true')
+  })
+
+  it('creates a named policy once', async () => {
+    const createPolicy = vi.fn((_name: string, rules: object) => rules)
+    vi.stubGlobal('trustedTypes', { createPolicy })
+
+    await renderDirectly(target, `<p>One</p>`, { trustedTypes: 'html-renderer-test' })
+    await renderDirectly(target, `<p>Two</p>`, { trustedTypes: 'html-renderer-test' })
+
+    expect(createPolicy).toHaveBeenCalledTimes(1)
+    expect(createPolicy.mock.calls[0][0]).toBe('html-renderer-test')
+    expect(target.textContent).toBe('Two')
+  })
+
+  it('applies the nonce to scripts and styles', async () => {
+    await renderDirectly(
+      target,
+      `<style>p { color: red }</style><script>window.nonceRan = true</script>`,
+      { nonce: 'abc123' },
+    )
+
+    expect(target.querySelector('style')?.getAttribute('nonce')).toBe('abc123')
+    expect(target.querySelector('script')?.nonce).toBe('abc123')
+  })
+
+  it('applies the nonce to the injected font style', async () => {
+    await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<style>@font-face { font-family: Nonce; src: url(/nonce.woff2); }</style><p>Text</p>`,
+      { nonce: 'abc123', fontFaceOptions: { styleElementId: 'nonce-fonts' } },
+    )
+
+    expect(ctx.shadowRoot.querySelector('style')?.getAttribute('nonce')).toBe('abc123')
+    expect(document.getElementById('nonce-fonts')?.getAttribute('nonce')).toBe('abc123')
+    document.getElementById('nonce-fonts')?.remove()
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { parseCssRules, tokenizeCss } from '../styles/cssTokenizer'
+import {
+  extractAtRuleBlocks,
+  extractImportRules,
+  getImportConditionPreludes,
+  rebaseUrls,
+  replaceImportRules,
+  stripComments,
+} from '../styles/cssUtils'
+
+const types = (css: string): string[] => tokenizeCss(css).map((token) => token.type)
+
+/**
+ * CSS Tokenizer Conformance Tests
+ *
+ * Tests for the CSS Syntax Level 3 tokenizer and the helpers built on it:
+ * - Strings, escapes, comments and url() values are tokenized like browsers do
+ * - Braces, quotes and comment markers inside strings never end rules
+ * - @import statements are found without a trailing semicolon, and only before other rules
+ * - Only real url() values are rebased
+ */
+describe('CSS tokenizer', () => {
+  it('tokenizes strings, escapes and comments', () => {
+    const css = 'a{content:"}/*\\"";}/* open'
+
+    expect(types(css)).toEqual([
+      'ident',
+      '{',
+      'ident',
+      'colon',
+      'string',
+      'semicolon',
+      '}',
+      'comment',
+    ])
+    expect(tokenizeCss(css)[4].value).toBe('}/*"')
+    expect(tokenizeCss('@\\66 ont-face')[0]).toMatchObject({
+      type: 'at-keyword',
+      value: 'font-face',
+    })
+    expect(tokenizeCss("'line\nnext'")[0].type).toBe('bad-string')
+    expect(
+      tokenizeCss(css)
+        .map((token) => token.text)
+        .join(''),
+    ).toBe(css)
+  })
+
+  it('tokenizes url() values, numbers and markers', () => {
+    expect(tokenizeCss('url( a\\)b.png )')[0]).toMatchObject({ type: 'url', value: 'a)b.png' })
+    expect(types('url(a b) url("a b")')).toEqual([
+      'bad-url',
+      'whitespace',
+      'function',
+      'string',
+      ')',
+    ])
+    expect(types('1e3px +.5% -2 -x #a1 #1 <!-- -->')).toEqual(
+      `dimension whitespace percentage whitespace number whitespace ident whitespace
+      hash whitespace hash whitespace CDO whitespace CDC`.split(/\s+/),
+    )
+    expect(types('u+a / * a\\')).toEqual(
+      'ident delim ident whitespace delim whitespace delim whitespace ident delim'.split(/\s+/),
+    )
+  })
+
+  it('parses rules with their blocks and statements', () => {
+    const rules = parseCssRules(
+      tokenizeCss('@charset "x"; h1 { color: red; } @media print { p { } } @import "a.css"'),
+    )
+
+    expect(rules.map((rule) => [rule.type, rule.name, rule.closed])).toEqual([
+      ['at-rule', 'charset', true],
+      ['qualified-rule', '', true],
+      ['at-rule', 'media', true],
+      ['at-rule', 'import', false],
+    ])
+    expect(parseCssRules(rules[2].block ?? [])).toHaveLength(1)
+  })
+
+  it('strips comments outside strings and urls only', () => {
+    expect(stripComments('a { content: "/* kept */"; } /* dropped */')).toBe(
+      'a { content: "/* kept */"; } ',
+    )
+    expect(stripComments('b { background: url(a/*b*/c.png) }')).toBe(
+      'b { background: url(a/*b*/c.png) }',
+    )
+    expect(stripComments('margin: 1px/**/2px; a/**/.b')).toBe('margin: 1px 2px; a.b')
+  })
+
+  it('extracts at-rule blocks with braces and quotes in strings', () => {
+    const css = `@font-face { font-family: "a\\"}"; src: url("a(1).woff2"); }
+      h1::before { content: "@font-face { font-family: fake }"; }
+      @\\66 ont-face { font-family: Escaped; }
+      @font-face { font-family: Open;`
+
+    expect(extractAtRuleBlocks(css, ['font-face'])).toEqual([
+      '@font-face { font-family: "a\\"}"; src: url("a(1).woff2"); }',
+      '@\\66 ont-face { font-family: Escaped; }',
+    ])
+  })
+
+  it('finds @import statements, with or without a semicolon', () => {
+    const css = `@import "b;c.css" screen;
+      @import url(a b);
+      @import url("x.css") layer(base) supports(display: grid)`
+
+    expect(extractImportRules(css).map(({ url, conditions }) => [url, conditions])).toEqual([
+      ['b;c.css', 'screen'],
+      ['x.css', 'layer(base) supports(display: grid)'],
+    ])
+    expect(extractImportRules('@media print { @import url(nested.css); }')).toEqual([])
+    expect(replaceImportRules('@import "a.css";p{}@import url(b.css)', () => '')).toBe(
+      'p{}@import url(b.css)',
+    )
+    expect(
+      extractImportRules(
+        '@charset "utf-8"; @layer a, b; @import "c.css"; @layer d {} @import "e.css";',
+      ),
+    ).toMatchObject([{ url: 'c.css' }])
+    expect(
+      getImportConditionPreludes(
+        'layer(base /* c */ ) supports(selector(:has(a))) (min-width: 40em)',
+      ),
+    ).toEqual(['@layer base', '@supports (selector(:has(a)))', '@media (min-width: 40em)'])
+  })
+
+  it('rebases url() values only', () => {
+    const css = `src: url( 'a.woff' ), url(b\\)c.woff), url(data:font/woff2;base64,AA==);
+      content: "url(d.png)"`
+
+    expect(rebaseUrls(css, 'https://cdn.test/fonts/')).toBe(
+      `src: url('https://cdn.test/fonts/a.woff'), url("https://cdn.test/fonts/b)c.woff"), url(data:font/woff2;base64,AA==);
+      content: "url(d.png)"`,
+    )
+  })
+})
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { renderIntoShadowRoot, updateShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * DOM Morphing Tests
+ *
+ * Tests for state-preserving re-renders with updateShadowRoot:
+ * - Unchanged nodes keep their identity
+ * - Text and attribute changes are patched in place
+ * - Keyed matching by id/data-key
+ * - Form input values survive updates
+ * - Elements created by scripts are preserved
+ * - Only new or changed scripts are replaced
+ * - Scripts are matched by their code, not by position
+ * - Script scopes do not pile up across updates
+ */
+describe('DOM Morphing', () => {
+  let ctx: ShadowTestContext
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+  })
+
+  afterEach(() => {
+    teardownShadowTest(ctx.host)
+  })
+
+  it('falls back to a full render when the shadow root is empty', async () => {
+    await updateShadowRoot(ctx.shadowRoot, '<h1>First</h1>')
+
+    expect(ctx.shadowRoot.querySelector('h1')?.textContent).toBe('First')
+  })
+
+  it('patches text and attributes without replacing elements', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, '<div class="a"><h1>Old</h1><p>Same</p></div>')
+    const div = ctx.shadowRoot.querySelector('div')
+    const h1 = ctx.shadowRoot.querySelector('h1')
+    const p = ctx.shadowRoot.querySelector('p')
+
+    await updateShadowRoot(ctx.shadowRoot, '<div class="b"><h1>New</h1><p>Same</p></div>')
+
+    expect(ctx.shadowRoot.querySelector('div')).toBe(div)
+    expect(ctx.shadowRoot.querySelector('h1')).toBe(h1)
+    expect(ctx.shadowRoot.querySelector('p')).toBe(p)
+    expect(div?.className).toBe('b')
+    expect(h1?.textContent).toBe('New')
+  })
+
+  it('matches keyed elements when they are reordered', async () => {
+    await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      '<ul><li data-key="a">A</li><li data-key="b">B</li><li data-key="c">C</li></ul>',
+    )
+    const a = ctx.shadowRoot.querySelector('[data-key="a"]')
+    const c = ctx.shadowRoot.querySelector('[data-key="c"]')
+
+    await updateShadowRoot(
+      ctx.shadowRoot,
+      '<ul><li data-key="c">C</li><li data-key="a">A!</li><li data-key="d">D</li></ul>',
+    )
+
+    const items = Array.from(ctx.shadowRoot.querySelectorAll('li'))
+    expect(items.map((li) => li.textContent)).toEqual(['C', 'A!', 'D'])
+    expect(items[0]).toBe(c)
+    expect(items[1]).toBe(a)
+    expect(ctx.shadowRoot.querySelector('[data-key="b"]')).toBeNull()
+  })
+
+  it('removes an unkeyed sibling without recreating the following nodes', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, '<p>One</p><section>Two</section><span>Three</span>')
+    const span = ctx.shadowRoot.querySelector('span')
+
+    await updateShadowRoot(ctx.shadowRoot, '<p>One</p><span>Three</span>')
+
+    expect(ctx.shadowRoot.querySelector('section')).toBeNull()
+    expect(ctx.shadowRoot.querySelector('span')).toBe(span)
+  })
+
+  it('preserves form input values across updates', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, '<input id="name" value=""><span>0</span>')
+    const input = ctx.shadowRoot.querySelector('input') as HTMLInputElement
+    input.value = 'typed by user'
+
+    await updateShadowRoot(ctx.shadowRoot, '<input id="name" value=""><span>1</span>')
+
+    expect(ctx.shadowRoot.querySelector('input')).toBe(input)
+    expect(input.value).toBe('typed by user')
+    expect(ctx.shadowRoot.querySelector('span')?.textContent).toBe('1')
+  })
+
+  it('keeps elements created by scripts', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, '<div id="chart"></div><p>Label</p>')
+    const chart = ctx.shadowRoot.querySelector('#chart') as HTMLElement
+    const canvas = document.createElement('canvas')
+    chart.appendChild(canvas)
+    const banner = document.createElement('div')
+    ctx.shadowRoot.querySelector('body')?.prepend(banner)
+
+    await updateShadowRoot(ctx.shadowRoot, '<div id="chart"></div><p>Label 2</p>')
+
+    expect(ctx.shadowRoot.querySelector('#chart')).toBe(chart)
+    expect(chart.firstChild).toBe(canvas)
+    expect(banner.isConnected).toBe(true)
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('Label 2')
+  })
+
+  it('keeps unchanged scripts and replaces changed ones', async () => {
+    await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      '<script>var same = 1</script><script>var changed = 1</script>',
+    )
+    const [same, changed] = Array.from(ctx.shadowRoot.querySelectorAll('script'))
+
+    await updateShadowRoot(
+      ctx.shadowRoot,
+      '<script>var same = 1</script><script>var changed = 2</script>',
+    )
+
+    const scripts = Array.from(ctx.shadowRoot.querySelectorAll('script'))
+    expect(scripts).toHaveLength(2)
+    expect(scripts[0]).toBe(same)
+    expect(scripts[1]).not.toBe(changed)
+    expect(scripts[1].textContent).toBe('var changed = 2')
+  })
+
+  it('removes the script that was removed from the markup', async () => {
+    await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      '<script>var first = 1</script><script>var second = 1</script>',
+    )
+    const second = ctx.shadowRoot.querySelectorAll('script')[1]
+
+    const result = await updateShadowRoot(ctx.shadowRoot, '<script>var second = 1</script>')
+
+    const scripts = Array.from(ctx.shadowRoot.querySelectorAll('script'))
+    expect(scripts).toEqual([second])
+    expect(result.scripts).toEqual([])
+  })
+
+  it('releases the script scopes of removed scripts', async () => {
+    const key = Symbol.for('shadow-html-renderer.scopes')
+    const size = (): number =>
+      (document as unknown as Record<symbol, Map<string, unknown> | undefined>)[key]?.size ?? 0
+    const dashboard = (value: number): string =>
+      `<script>var chart = 1</script><p>${value}</p><script>var data = ${value}</script>`
+    const options = { scopedDocument: true }
+
+    await renderIntoShadowRoot(ctx.shadowRoot, dashboard(0), options)
+    const before = size()
+    for (let i = 1; i <= 20; i++) {
+      await updateShadowRoot(ctx.shadowRoot, dashboard(i), options)
+    }
+    expect(size()).toBeLessThanOrEqual(before + 1)
+
+    const afterDataUpdates = size()
+    for (let i = 0; i < 5; i++) {
+      await updateShadowRoot(ctx.shadowRoot, `<p>${i}</p><script>var chart = 1</script>`, options)
+    }
+    expect(size()).toBeLessThanOrEqual(afterDataUpdates)
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('4')
+  })
+})
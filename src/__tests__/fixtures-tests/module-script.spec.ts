@@ -1,12 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import { renderIntoShadowRoot } from '../../renderers/shadowRenderer'
-import {
-  loadFixture,
-  waitFor,
-  setupShadowTest,
-  teardownShadowTest,
-  ShadowTestContext,
-} from '../test-utils'
+import { loadFixture, setupShadowTest, teardownShadowTest, ShadowTestContext } from '../test-utils'
 
 /**
  * module-script.html Fixture Tests
@@ -29,7 +23,6 @@ describe('Fixture: module-script.html', () => {
   it('renders module result elements', async () => {
     const html = loadFixture('module-script.html')
     await renderIntoShadowRoot(ctx.shadowRoot, html)
-    await waitFor(100)
 
     const moduleResult = ctx.shadowRoot.querySelector('#module-result')
     expect(moduleResult).toBeTruthy()
@@ -45,7 +38,6 @@ describe('Fixture: module-script.html', () => {
   it('has card component structure', async () => {
     const html = loadFixture('module-script.html')
     await renderIntoShadowRoot(ctx.shadowRoot, html)
-    await waitFor(50)
 
     const card = ctx.shadowRoot.querySelector('.card')
     expect(card).toBeTruthy()
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  clearShadowRoot,
+  renderIntoShadowRoot,
+  updateShadowRoot,
+} from '../renderers/shadowRenderer'
+import { cleanupHost, createShadowHost } from './test-utils'
+
+const fontStyle = (family: string): string =>
+  `<style>@font-face { font-family: ${family}; src: url(/${family}.woff2); }</style>`
+
+const injected = (): string => document.getElementById('cleanup-fonts')?.textContent ?? ''
+
+const options = { fontFaceOptions: { styleElementId: 'cleanup-fonts' } }
+
+/**
+ * Font-Face Cleanup Tests
+ *
+ * Tests for reference-counted font-face injection:
+ * - Rules are removed once no live root uses them
+ * - Rules shared with another root survive clearing one of them
+ * - Re-renders release the rules of the previous render
+ * - Aborted updates keep the rules of the content they leave in place
+ */
+describe('Font-face cleanup', () => {
+  let first: { host: HTMLElement; shadowRoot: ShadowRoot }
+  let second: { host: HTMLElement; shadowRoot: ShadowRoot }
+
+  beforeEach(() => {
+    first = createShadowHost()
+    second = createShadowHost()
+  })
+
+  afterEach(() => {
+    clearShadowRoot(first.shadowRoot)
+    clearShadowRoot(second.shadowRoot)
+    cleanupHost(first.host)
+    cleanupHost(second.host)
+  })
+
+  it('keeps shared rules until the last root using them is cleared', async () => {
+    await renderIntoShadowRoot(first.shadowRoot, fontStyle('Shared') + fontStyle('Own'), options)
+    await renderIntoShadowRoot(second.shadowRoot, fontStyle('Shared'), options)
+    expect(injected().match(/@font-face/g)).toHaveLength(2)
+
+    clearShadowRoot(first.shadowRoot)
+    expect(injected()).toContain('Shared')
+    expect(injected()).not.toContain('Own')
+
+    clearShadowRoot(second.shadowRoot)
+    expect(document.getElementById('cleanup-fonts')).toBeNull()
+  })
+
+  it('releases the rules of the previous render', async () => {
+    await renderIntoShadowRoot(first.shadowRoot, fontStyle('Old') + fontStyle('Kept'), options)
+    await updateShadowRoot(first.shadowRoot, fontStyle('New') + fontStyle('Kept'), options)
+
+    expect(injected()).not.toContain('Old')
+    expect(injected()).toContain('New')
+    expect(injected().match(/font-family: Kept/g)).toHaveLength(1)
+
+    await renderIntoShadowRoot(first.shadowRoot, '<p>No fonts</p>', options)
+    expect(document.getElementById('cleanup-fonts')).toBeNull()
+  })
+
+  it('keeps the rules of the current content when an update is aborted', async () => {
+    await renderIntoShadowRoot(first.shadowRoot, fontStyle('Current'), options)
+    const controller = new AbortController()
+    const update = updateShadowRoot(first.shadowRoot, fontStyle('Next'), {
+      ...options,
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    expect((await update).aborted).toBe(true)
+    expect(injected()).toContain('Current')
+    expect(injected()).not.toContain('Next')
+
+    clearShadowRoot(first.shadowRoot)
+    expect(document.getElementById('cleanup-fonts')).toBeNull()
+  })
+
+  it('releases the rules when a render handle is disposed', async () => {
+    const handle = renderIntoShadowRoot(first.shadowRoot, fontStyle('Disposed'), options)
+    await handle
+
+    handle.dispose()
+
+    expect(document.getElementById('cleanup-fonts')).toBeNull()
+  })
+})
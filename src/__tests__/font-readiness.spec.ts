@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { clearShadowRoot, renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setFontFaceDescriptor } from '../styles/cssUtils'
+import { cleanupHost, createShadowHost } from './test-utils'
+
+const fontStyle = (family: string, extra = ''): string =>
+  `<style>@font-face { font-family: "${family}"; src: url(/${family}.woff2);${extra} }</style>`
+
+/**
+ * Create a stand-in for a `FontFace` whose `load()` settles as given.
+ */
+const createFace = (family: string, load: () => Promise<unknown>, weight = '400') =>
+  ({ family: `"${family}"`, style: 'normal', weight, load }) as unknown as FontFace
+
+/**
+ * Font Readiness Tests
+ *
+ * Tests for `waitForFonts` and `fontFaceOptions.fontDisplay`:
+ * - Renders wait for the faces of the families they injected and report each outcome
+ * - The host is hidden until the fonts are ready when asked to
+ * - The font-display descriptor of injected rules is overridden
+ */
+describe('Font readiness', () => {
+  let ctx: { host: HTMLElement; shadowRoot: ShadowRoot }
+  let faces: FontFace[]
+
+  beforeEach(() => {
+    ctx = createShadowHost()
+    faces = []
+    Object.defineProperty(document, 'fonts', {
+      configurable: true,
+      value: { forEach: (callback: (face: FontFace) => void) => faces.forEach(callback) },
+    })
+  })
+
+  afterEach(() => {
+    Reflect.deleteProperty(document, 'fonts')
+    clearShadowRoot(ctx.shadowRoot)
+    cleanupHost(ctx.host)
+  })
+
+  it('reports the faces that loaded, failed or timed out', async () => {
+    faces = [
+      createFace('Brand', () => Promise.resolve()),
+      createFace('Brand', () => new Promise(() => {}), '700'),
+      createFace('Broken', () => Promise.reject(new Error('404'))),
+      createFace('Unrelated', () => Promise.resolve()),
+    ]
+
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      fontStyle('Brand') + fontStyle('Broken'),
+      { waitForFonts: { timeout: 20 } },
+    )
+
+    expect(result.fonts).toEqual([
+      { family: 'Brand', style: 'normal', weight: '400', status: 'loaded' },
+      { family: 'Brand', style: 'normal', weight: '700', status: 'timed-out' },
+      { family: 'Broken', style: 'normal', weight: '400', status: 'error' },
+    ])
+  })
+
+  it('keeps the host hidden until the fonts are ready', async () => {
+    let loaded = (): void => {}
+    faces = [createFace('Brand', () => new Promise<void>((resolve) => (loaded = resolve)))]
+    ctx.host.style.visibility = 'visible'
+
+    const handle = renderIntoShadowRoot(ctx.shadowRoot, fontStyle('Brand'), {
+      waitForFonts: { hideHost: true },
+    })
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(ctx.host.style.visibility).toBe('hidden')
+
+    loaded()
+    const result = await handle
+    expect(result.fonts[0].status).toBe('loaded')
+    expect(ctx.host.style.visibility).toBe('visible')
+  })
+
+  it('overrides font-display on injected rules', async () => {
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      fontStyle('Swapped', ' font-display: swap;') + fontStyle('Plain'),
+      { fontFaceOptions: { fontDisplay: 'block' } },
+    )
+
+    expect(result.fonts).toEqual([])
+    expect(result.fontFaceRules[0]).toContain('font-display: block;')
+    expect(result.fontFaceRules[0]).not.toContain('swap')
+    expect(result.fontFaceRules[1]).toMatch(/^@font-face \{ font-display: block; font-family/)
+    expect(setFontFaceDescriptor('@media print { @font-face{} }', 'font-display', 'swap')).toBe(
+      '@media print { @font-face{ font-display: swap;} }',
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  clearShadowRoot,
+  renderIntoShadowRoot,
+  updateShadowRoot,
+} from '../renderers/shadowRenderer'
+import { rewriteFontFamilies } from '../styles/fontScoping'
+import { cleanupHost, createShadowHost } from './test-utils'
+
+const brandDocument = (file: string): string => `<style>
+  @font-face { font-family: "Brand"; src: url(/${file}.woff2); }
+  h1 { font: bold 2em/1.2 Brand, serif; }
+  p { font-family: 'Brand', Arial !important; }
+</style><h1>Title</h1><p style="font-family: brand">Text</p>`
+
+const injected = (): string => document.getElementById('scoped-fonts')?.textContent ?? ''
+
+const options = { scopeFontFamilies: true, fontFaceOptions: { styleElementId: 'scoped-fonts' } }
+
+/**
+ * Font-Family Scoping Tests
+ *
+ * Tests for `scopeFontFamilies`:
+ * - `font-family` and `font` declarations are rewritten, other families are kept
+ * - Look-alike text in strings and comments is left alone
+ * - Two roots declaring the same family get their own aliased rules
+ * - Aliases stay stable across re-renders of the same root
+ */
+describe('Font-family scoping', () => {
+  let first: { host: HTMLElement; shadowRoot: ShadowRoot }
+  let second: { host: HTMLElement; shadowRoot: ShadowRoot }
+
+  beforeEach(() => {
+    first = createShadowHost()
+    second = createShadowHost()
+  })
+
+  afterEach(() => {
+    clearShadowRoot(first.shadowRoot)
+    clearShadowRoot(second.shadowRoot)
+    cleanupHost(first.host)
+    cleanupHost(second.host)
+  })
+
+  it('rewrites font-family and font declarations', () => {
+    const aliases = new Map([
+      ['brand', 'Brand__s1'],
+      ['brand sans', 'Brand Sans__s1'],
+    ])
+
+    expect(rewriteFontFamilies('h1{font:italic 700 12px/2 Brand Sans,serif}', aliases)).toBe(
+      'h1{font:italic 700 12px/2 "Brand Sans__s1",serif}',
+    )
+    expect(rewriteFontFamilies('p { font-family: "Brand", Branded !important; }', aliases)).toBe(
+      'p { font-family: "Brand__s1", Branded !important; }',
+    )
+    expect(rewriteFontFamilies('p { font-size: 2em; font: inherit }', aliases)).toBe(
+      'p { font-size: 2em; font: inherit }',
+    )
+  })
+
+  it('leaves strings and comments that look like declarations alone', () => {
+    const aliases = new Map([['brand', 'Brand__s1']])
+    const css = `/* font-family: Brand; */ a::after { content: "; font: 1em Brand;" }`
+
+    expect(rewriteFontFamilies(css, aliases)).toBe(css)
+    expect(rewriteFontFamilies('color: red; font-family: Brand', aliases)).toBe(
+      'color: red; font-family: "Brand__s1"',
+    )
+    expect(rewriteFontFamilies('@media print { @font-face { font-family: Brand } }', aliases)).toBe(
+      '@media print { @font-face { font-family: "Brand__s1" } }',
+    )
+  })
+
+  it('gives each root its own aliases for the same family', async () => {
+    const a = await renderIntoShadowRoot(first.shadowRoot, brandDocument('a'), options)
+    const b = await renderIntoShadowRoot(second.shadowRoot, brandDocument('b'), options)
+
+    const [aliasA, aliasB] = [a, b].map(
+      (result) => /font-family: ("[^"]+")/.exec(result.fontFaceRules[0])?.[1],
+    )
+    expect(aliasA).toMatch(/^"Brand__/)
+    expect(aliasA).not.toBe(aliasB)
+    expect(injected()).toContain('/a.woff2')
+    expect(injected()).toContain('/b.woff2')
+
+    const css = first.shadowRoot.querySelector('style')?.textContent ?? ''
+    expect(css).toContain(`font: bold 2em/1.2 ${aliasA}, serif;`)
+    expect(css).toContain(`font-family: ${aliasA}, Arial !important;`)
+    expect(first.shadowRoot.querySelector('p')?.getAttribute('style')).toBe(
+      `font-family: ${aliasA}`,
+    )
+  })
+
+  it('keeps the aliases of a root across re-renders', async () => {
+    const before = await renderIntoShadowRoot(first.shadowRoot, brandDocument('a'), options)
+    const after = await updateShadowRoot(first.shadowRoot, brandDocument('a'), options)
+
+    expect(after.fontFaceRules).toEqual(before.fontFaceRules)
+    expect(injected().match(/@font-face/g)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { extractAtRuleBlocks } from '../styles/cssUtils'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+const css = `@property --angle { syntax: '<angle>'; inherits: false; initial-value: 0deg; }
+  @counter-style stars { system: cyclic; symbols: url(img/star.png); suffix: " "; }
+  @font-palette-values --brand { font-family: Brand; override-colors: 0 red; }
+  @font-face { font-family: Brand; src: url(fonts/brand.woff2); }
+  @font-feature-values Brand { @styleset { fancy: 1; } }
+  p { rotate: var(--angle); list-style: stars; }`
+
+/**
+ * Hoisted At-Rule Tests
+ *
+ * Tests for hoisting document-scoped at-rules into the main document:
+ * - Only @font-face is hoisted by default
+ * - @property, @counter-style and @font-palette-values are hoisted when listed
+ * - URLs are rebased and @import targets are followed
+ * - The hoisted rule types are configurable
+ */
+describe('Hoisted at-rules', () => {
+  let ctx: ShadowTestContext
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    document.getElementById('at-rules')?.remove()
+  })
+
+  it('extracts the blocks of the given at-rules only', () => {
+    const blocks = extractAtRuleBlocks(css, ['property', 'counter-style'])
+
+    expect(blocks).toHaveLength(2)
+    expect(blocks[0]).toMatch(/^@property --angle \{/)
+    expect(blocks[1]).toMatch(/^@counter-style stars \{[^}]*\}$/)
+  })
+
+  it('hoists only @font-face by default', async () => {
+    const result = await renderIntoShadowRoot(ctx.shadowRoot, `<style>${css}</style>`, {
+      fontFaceOptions: { styleElementId: 'at-rules' },
+    })
+
+    expect(result.hoistedRules).toEqual(result.fontFaceRules)
+    expect(result.fontFaceRules).toHaveLength(1)
+  })
+
+  it('hoists document-scoped at-rules into the main document', async () => {
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<base href="https://assets.example.com/"><style>${css}</style><p>Text</p>`,
+      {
+        fontFaceOptions: {
+          styleElementId: 'at-rules',
+          atRules: ['font-face', 'property', 'counter-style', 'font-palette-values'],
+        },
+      },
+    )
+
+    expect(result.hoistedRules.map((rule) => rule.split(/\s/)[0])).toEqual([
+      '@property',
+      '@counter-style',
+      '@font-palette-values',
+      '@font-face',
+    ])
+    expect(result.fontFaceRules).toHaveLength(1)
+    const injected = document.getElementById('at-rules')?.textContent ?? ''
+    expect(injected).toContain('url(https://assets.example.com/img/star.png)')
+    expect(injected).not.toContain('@font-feature-values')
+  })
+
+  it('follows @import and honors the configured rule types', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(css)),
+    )
+
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<style>@import url("https://cdn.example.com/theme.css");</style>`,
+      { fontFaceOptions: { styleElementId: 'at-rules', atRules: ['property'] } },
+    )
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(result.hoistedRules).toHaveLength(1)
+    expect(result.hoistedRules[0]).toContain('--angle')
+    expect(result.fontFaceRules).toEqual([])
+  })
+})
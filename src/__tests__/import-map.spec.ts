@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { mergeImportMaps, parseImportMap, resolveModuleSpecifier } from '../scripts/importMap'
+
+/**
+ * Import Map Tests
+ *
+ * Tests for import maps in rendered HTML:
+ * - Specifier resolution with imports, prefixes and scopes
+ * - Module scripts are rewritten against the rendered import map
+ * - Import maps are never handed to the browser
+ * - Invalid import maps are reported as failed
+ */
+describe('Import Maps', () => {
+  const base = 'https://example.com/embed/'
+
+  describe('resolveModuleSpecifier', () => {
+    const map = parseImportMap(
+      JSON.stringify({
+        imports: { lit: 'https://cdn.example.com/lit.js', 'lib/': './vendor/lib/' },
+        scopes: { './legacy/': { lit: './legacy/lit.js' } },
+      }),
+      base,
+    )
+
+    it('resolves exact and prefix matches', () => {
+      expect(resolveModuleSpecifier('lit', map, base)).toBe('https://cdn.example.com/lit.js')
+      expect(resolveModuleSpecifier('lib/a/b.js', map, base)).toBe(
+        'https://example.com/embed/vendor/lib/a/b.js',
+      )
+    })
+
+    it('prefers scopes matching the importing module', () => {
+      expect(resolveModuleSpecifier('lit', map, `${base}legacy/app.js`)).toBe(
+        'https://example.com/embed/legacy/lit.js',
+      )
+    })
+
+    it('resolves relative specifiers and leaves unknown bare specifiers alone', () => {
+      expect(resolveModuleSpecifier('./util.js', map, `${base}app.js`)).toBe(
+        'https://example.com/embed/util.js',
+      )
+      expect(resolveModuleSpecifier('react', map, base)).toBe('react')
+    })
+
+    it('keeps the rules of earlier maps when merging', () => {
+      const later = parseImportMap('{"imports": {"lit": "./other.js", "new": "./new.js"}}', base)
+      const merged = mergeImportMaps(map, later)
+
+      expect(merged.imports.lit).toBe('https://cdn.example.com/lit.js')
+      expect(merged.imports.new).toBe('https://example.com/embed/new.js')
+    })
+  })
+
+  describe('rendering', () => {
+    let target: HTMLElement
+
+    beforeEach(() => {
+      target = document.createElement('div')
+      document.body.appendChild(target)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      clearElement(target)
+      target.remove()
+    })
+
+    const importMap = `<script type="importmap">
+      {"imports": {"lit": "https://cdn.example.com/lit.js", "app/": "./app/"}}
+    </script>`
+
+    it('rewrites inline module imports against the rendered import map', async () => {
+      const result = await renderDirectly(
+        target,
+        `${importMap}
+        <script type="module">
+          import { html } from 'lit'
+          import './local.js'
+          export * from 'app/widget.js'
+          import React from 'react'
+          const lazy = await import('lit')
+        </script>`,
+        { baseUrl: base },
+      )
+
+      const code = target.querySelector('script[type="module"]')?.textContent ?? ''
+      expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed'])
+      expect(code).toContain(`import { html } from 'https://cdn.example.com/lit.js'`)
+      expect(code).toContain(`import 'https://example.com/embed/local.js'`)
+      expect(code).toContain(`export * from 'https://example.com/embed/app/widget.js'`)
+      expect(code).toContain(`import React from 'react'`)
+      expect(code).toContain(`await import('https://cdn.example.com/lit.js')`)
+    })
+
+    it('fetches external modules and resolves their imports against their URL', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(`import { html } from 'lit'\nimport './util.js'`)),
+      )
+
+      await renderDirectly(
+        target,
+        `${importMap}<script type="module" src="https://cdn.example.com/widgets/main.js"></script>`,
+        { baseUrl: base },
+      )
+
+      const script = target.querySelector('script[type="module"]')
+      expect(script?.hasAttribute('src')).toBe(false)
+      expect(script?.textContent).toContain(`from 'https://cdn.example.com/lit.js'`)
+      expect(script?.textContent).toContain(`import 'https://cdn.example.com/widgets/util.js'`)
+    })
+
+    it('keeps the import map in the output without registering it', async () => {
+      await renderDirectly(target, importMap)
+
+      const map = target.querySelector('script[type="importmap"]')
+      expect(map?.textContent).toContain('cdn.example.com/lit.js')
+    })
+
+    it('forgets the import map when the root is rendered again', async () => {
+      await renderDirectly(target, importMap)
+      await renderDirectly(target, `<script type="module">import { html } from 'lit'</script>`)
+
+      expect(target.querySelector('script')?.textContent).toBe(`import { html } from 'lit'`)
+    })
+
+    it('reports invalid import maps as failed', async () => {
+      const result = await renderDirectly(target, `<script type="importmap">{ invalid</script>`)
+
+      expect(result.scripts[0].status).toBe('failed')
+      expect(result.scripts[0].error).toBeInstanceOf(SyntaxError)
+    })
+  })
+})
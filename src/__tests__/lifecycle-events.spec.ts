@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { waitForSubresources } from '../scripts/renderLifecycle'
+
+/**
+ * Lifecycle Events Tests
+ *
+ * Tests for the opt-in `lifecycleEvents` mode:
+ * - DOMContentLoaded fires after sequential and defer scripts
+ * - load fires after async scripts, with readyState "complete"
+ * - window.onload and readystatechange handlers
+ * - load does not wait for lazy images, disabled stylesheets or stalled subresources
+ * - The host page never sees the synthetic events
+ */
+describe('Lifecycle Events', () => {
+  let target: HTMLElement
+
+  const log = `<script>var __lifecycleLog = []</script>`
+
+  const readLog = (): string[] => JSON.parse(target.querySelector('#log')?.textContent || '[]')
+
+  // Scripts run in their own realm, so the log is written into the DOM for the test to read.
+  // Rendered last, its load listener runs after all others.
+  const flushLog = `<span id="log"></span>
+    <script>
+      window.addEventListener('load', function () {
+        document.getElementById('log').textContent = JSON.stringify(__lifecycleLog)
+      })
+    </script>`
+
+  beforeEach(() => {
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    clearElement(target)
+    target.remove()
+  })
+
+  it('dispatches DOMContentLoaded after sequential and defer scripts, then load', async () => {
+    await renderDirectly(
+      target,
+      `${log}
+      <script>
+        __lifecycleLog.push('sequential:' + document.readyState)
+        document.addEventListener('DOMContentLoaded', function () {
+          __lifecycleLog.push('DOMContentLoaded:' + document.readyState)
+        })
+        window.addEventListener('load', function () {
+          __lifecycleLog.push('load:' + document.readyState)
+        })
+      </script>
+      <script defer>__lifecycleLog.push('defer:' + document.readyState)</script>
+      <script async>__lifecycleLog.push('async')</script>
+      ${flushLog}`,
+      { lifecycleEvents: true },
+    )
+
+    expect(readLog()).toEqual([
+      'sequential:loading',
+      'async',
+      'defer:interactive',
+      'DOMContentLoaded:interactive',
+      'load:complete',
+    ])
+  })
+
+  it('supports window.onload and readystatechange handlers', async () => {
+    await renderDirectly(
+      target,
+      `${log}<span id="log"></span>
+      <script>
+        document.onreadystatechange = function () {
+          __lifecycleLog.push('readystatechange:' + document.readyState)
+        }
+        window.onload = function () {
+          __lifecycleLog.push('onload')
+          document.getElementById('log').textContent = JSON.stringify(__lifecycleLog)
+        }
+      </script>`,
+      { lifecycleEvents: true },
+    )
+
+    expect(readLog()).toEqual([
+      'readystatechange:interactive',
+      'readystatechange:complete',
+      'onload',
+    ])
+  })
+
+  it('does not dispatch lifecycle events on the host page', async () => {
+    const onHostLoaded = vi.fn()
+    document.addEventListener('DOMContentLoaded', onHostLoaded)
+    window.addEventListener('load', onHostLoaded)
+
+    try {
+      await renderDirectly(
+        target,
+        `<script>document.addEventListener('DOMContentLoaded', function () {})</script>`,
+        { lifecycleEvents: true },
+      )
+
+      expect(onHostLoaded).not.toHaveBeenCalled()
+      expect(document.readyState).toBe('complete')
+    } finally {
+      document.removeEventListener('DOMContentLoaded', onHostLoaded)
+      window.removeEventListener('load', onHostLoaded)
+    }
+  })
+
+  it('does not fire listeners of a previous render again', async () => {
+    const html = `<span id="count">0</span>
+      <script>
+        document.addEventListener('DOMContentLoaded', function () {
+          var el = document.getElementById('count')
+          el.textContent = String(Number(el.textContent) + 1)
+        })
+      </script>`
+
+    await renderDirectly(target, html, { lifecycleEvents: true })
+    const first = target.querySelector('#count')
+    await renderDirectly(target, html, { lifecycleEvents: true })
+
+    expect(first?.textContent).toBe('1')
+    expect(target.querySelector('#count')?.textContent).toBe('1')
+  })
+
+  it('does not wait for lazy images, disabled stylesheets or stalled subresources', async () => {
+    const result = await renderDirectly(
+      target,
+      `<img loading="lazy" src="/offscreen.png">
+      <link rel="stylesheet" href="/print.css" disabled>`,
+      { lifecycleEvents: true },
+    )
+    expect(result.aborted).toBe(false)
+
+    const root = document.createElement('div')
+    root.innerHTML = '<img src="/stalled.png">'
+    const start = Date.now()
+    await waitForSubresources(root, undefined, 20)
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+})
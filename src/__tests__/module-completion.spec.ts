@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+
+/**
+ * Module Completion Tests
+ *
+ * Tests for tracking when inline module scripts really finish:
+ * - The render waits for top-level await
+ * - Errors thrown by a module are reported as failed
+ * - Imports that fail to load are reported as failed
+ * - Modules that fail before they run are reported as failed once `load` fires
+ * - Errors not reported for the document do not fail a pending module
+ * - Environments without module support resolve right away
+ *
+ * jsdom does not run module scripts, so the tests play the browser: they announce
+ * module support, evaluate the inserted module source and report uncaught errors for the
+ * document, like inline scripts do.
+ */
+describe('Module Completion', () => {
+  let target: HTMLElement
+
+  const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor
+
+  const reportError = (error: unknown): void => {
+    window.dispatchEvent(
+      new ErrorEvent('error', { error, message: String(error), filename: document.URL }),
+    )
+  }
+
+  const runModule = async (): Promise<void> => {
+    await vi.waitFor(() => expect(target.querySelector('script[type="module"]')).toBeTruthy())
+    const code = target.querySelector('script[type="module"]')?.textContent ?? ''
+    try {
+      await new AsyncFunction(code)()
+    } catch (error) {
+      reportError(error)
+    }
+  }
+
+  beforeEach(() => {
+    Object.defineProperty(HTMLScriptElement, 'supports', {
+      value: (type: string) => type === 'module',
+      configurable: true,
+    })
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    Reflect.deleteProperty(HTMLScriptElement, 'supports')
+    clearElement(target)
+    target.remove()
+  })
+
+  it('resolves the render after top-level await finished', async () => {
+    let settled = false
+    const render = renderDirectly(
+      target,
+      `<span id="out"></span>
+      <script type="module">
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        document.getElementById('out').textContent = 'ready'
+      </script>`,
+    )
+    render.then(() => (settled = true))
+
+    const moduleRun = runModule()
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(settled).toBe(false)
+
+    await moduleRun
+    const result = await render
+
+    expect(result.scripts[0].status).toBe('executed')
+    expect(target.querySelector('#out')?.textContent).toBe('ready')
+  })
+
+  it('reports modules that throw as failed', async () => {
+    const render = renderDirectly(
+      target,
+      `<script type="module">
+        await Promise.resolve()
+        throw new Error('module boom')
+      </script>`,
+    )
+
+    await runModule()
+    const result = await render
+
+    expect(result.scripts[0].status).toBe('failed')
+    expect((result.scripts[0].error as Error).message).toBe('module boom')
+  })
+
+  it('reports modules whose imports fail to load as failed', async () => {
+    const render = renderDirectly(target, `<script type="module">import './missing.js'</script>`)
+
+    await vi.waitFor(() => expect(target.querySelector('script[type="module"]')).toBeTruthy())
+    target.querySelector('script')?.dispatchEvent(new Event('error'))
+    const result = await render
+
+    expect(result.scripts[0].status).toBe('failed')
+    expect((result.scripts[0].error as Error).message).toMatch(/import/)
+  })
+
+  it('reports modules that fail before they run as failed', async () => {
+    const render = renderDirectly(target, `<script type="module">export default {</script>`)
+
+    await vi.waitFor(() => expect(target.querySelector('script[type="module"]')).toBeTruthy())
+    reportError(new SyntaxError('Unexpected end of input'))
+    target.querySelector('script')?.dispatchEvent(new Event('load'))
+    const result = await render
+
+    expect(result.scripts[0].status).toBe('failed')
+    expect((result.scripts[0].error as Error).message).toBe('Unexpected end of input')
+  })
+
+  it('does not fail pending modules for unrelated errors', async () => {
+    let settled = false
+    const render = renderDirectly(
+      target,
+      `<script type="module">
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      </script>`,
+    )
+    render.then(() => (settled = true))
+
+    await vi.waitFor(() => expect(target.querySelector('script[type="module"]')).toBeTruthy())
+    window.dispatchEvent(new ErrorEvent('error', { message: 'unrelated' }))
+    const moduleRun = runModule()
+    window.dispatchEvent(new ErrorEvent('error', { message: 'unrelated' }))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(settled).toBe(false)
+
+    await moduleRun
+    const result = await render
+
+    expect(result.scripts[0].status).toBe('executed')
+  })
+
+  it('does not wait for modules where they cannot run', async () => {
+    Reflect.deleteProperty(HTMLScriptElement, 'supports')
+
+    const result = await renderDirectly(target, `<script type="module">export {}</script>`)
+
+    expect(result.scripts[0].status).toBe('executed')
+    expect(target.querySelector('script')?.textContent).toBe('export {}')
+  })
+})
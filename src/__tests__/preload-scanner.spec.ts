@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Preload Scanner Tests
+ *
+ * Tests for loading subresources ahead of execution:
+ * - External script sources are fetched in parallel, but run in document order
+ * - Preload hints are added to document.head while rendering, then removed
+ * - Stylesheets for @font-face extraction are fetched in parallel, once each
+ */
+describe('Preload Scanner', () => {
+  let ctx: ShadowTestContext
+  let target: HTMLElement
+  let inFlight: number
+  let maxInFlight: number
+
+  // Answers every request after a short delay, recording how many overlap
+  const stubFetch = (body: (url: string) => string): void => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        inFlight--
+        return new Response(body(url))
+      }),
+    )
+  }
+
+  beforeEach(() => {
+    inFlight = 0
+    maxInFlight = 0
+    ctx = setupShadowTest()
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    clearElement(target)
+    target.remove()
+  })
+
+  it('fetches sequential scripts in parallel and runs them in order', async () => {
+    stubFetch((url) => `document.getElementById('log').textContent += '${url.slice(-4, -3)}'`)
+
+    const result = await renderDirectly(
+      target,
+      `<span id="log"></span>
+      <script src="https://cdn.example.com/a.js"></script>
+      <script src="https://cdn.example.com/b.js"></script>
+      <script src="https://cdn.example.com/c.js"></script>`,
+      { scopedDocument: true },
+    )
+
+    expect(maxInFlight).toBe(3)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed', 'executed'])
+    expect(target.querySelector('#log')?.textContent).toBe('abc')
+  })
+
+  it('adds preload hints while rendering and removes them afterwards', async () => {
+    const render = renderDirectly(
+      target,
+      `<script src="http://127.0.0.1:9/first.js"></script>
+      <script src="http://127.0.0.1:9/second.js" async></script>
+      <link rel="preload" href="http://127.0.0.1:9/hero.png" as="image">`,
+    )
+
+    const hints = Array.from(document.head.querySelectorAll('link[href^="http://127.0.0.1:9/"]'))
+    expect(hints.map((link) => [link.getAttribute('rel'), link.getAttribute('as')])).toEqual([
+      ['preload', 'script'],
+      ['preload', 'script'],
+      ['preload', 'image'],
+    ])
+
+    await render
+    expect(document.head.querySelector('link[href^="http://127.0.0.1:9/"]')).toBeNull()
+  })
+
+  it('fetches stylesheets for font extraction in parallel, once each', async () => {
+    stubFetch((url) => `@font-face { font-family: '${url}'; src: url(font.woff2); }`)
+
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<link rel="stylesheet" href="https://cdn.example.com/one.css">
+      <link rel="stylesheet" href="https://cdn.example.com/two.css">`,
+      { fontFaceOptions: { styleElementId: 'preload-fonts' } },
+    )
+
+    expect(maxInFlight).toBe(2)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(result.fontFaceRules).toHaveLength(2)
+    document.getElementById('preload-fonts')?.remove()
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearShadowRoot, renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { renderDirectly } from '../renderers/directRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Render Lifecycle Tests
+ *
+ * Tests for render handles and cancellation:
+ * - Overlapping renders on the same root abort the stale one
+ * - dispose() aborts and clears
+ * - External AbortSignal support
+ * - Clearing a root aborts its in-flight render
+ */
+describe('Render Lifecycle', () => {
+  let ctx: ShadowTestContext
+  let fetchSignals: AbortSignal[]
+
+  const slowHtml = '<link rel="stylesheet" href="https://cdn.example.com/slow.css"><p>Slow</p>'
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    fetchSignals = []
+    // Stylesheet fetches never complete unless aborted
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((_url: string, init?: RequestInit) => {
+        const signal = init?.signal as AbortSignal
+        fetchSignals.push(signal)
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason))
+        })
+      }),
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    delete document.body.dataset.lifecycle
+  })
+
+  it('returns a promise-like handle', async () => {
+    const handle = renderIntoShadowRoot(ctx.shadowRoot, '<p>Hi</p>')
+
+    expect(typeof handle.dispose).toBe('function')
+    expect(handle.signal.aborted).toBe(false)
+    await handle
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('Hi')
+  })
+
+  it('aborts a stale render when a new render starts on the same root', async () => {
+    const first = renderIntoShadowRoot(ctx.shadowRoot, slowHtml)
+    const second = renderIntoShadowRoot(ctx.shadowRoot, '<p>Fresh</p>')
+
+    await Promise.all([first, second])
+
+    expect(first.signal.aborted).toBe(true)
+    expect(second.signal.aborted).toBe(false)
+    expect(fetchSignals[0].aborted).toBe(true)
+    expect(Array.from(ctx.shadowRoot.querySelectorAll('p')).map((p) => p.textContent)).toEqual([
+      'Fresh',
+    ])
+  })
+
+  it('dispose() aborts the render and clears the root', async () => {
+    const handle = renderIntoShadowRoot(ctx.shadowRoot, slowHtml)
+    handle.dispose()
+    await handle
+
+    expect(handle.signal.aborted).toBe(true)
+    expect(ctx.shadowRoot.childNodes.length).toBe(0)
+  })
+
+  it('dispose() of a superseded render leaves the newer content alone', async () => {
+    const first = renderIntoShadowRoot(ctx.shadowRoot, '<p>Old</p>')
+    await first
+    await renderIntoShadowRoot(ctx.shadowRoot, '<p>New</p>')
+
+    first.dispose()
+
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('New')
+  })
+
+  it('clearShadowRoot aborts an in-flight render', async () => {
+    const handle = renderIntoShadowRoot(ctx.shadowRoot, slowHtml)
+    clearShadowRoot(ctx.shadowRoot)
+    await handle
+
+    expect(handle.signal.aborted).toBe(true)
+    expect(ctx.shadowRoot.childNodes.length).toBe(0)
+  })
+
+  it('does not insert scripts once the external signal is aborted', async () => {
+    const target = document.createElement('div')
+    document.body.appendChild(target)
+    const controller = new AbortController()
+    controller.abort()
+
+    const handle = renderDirectly(
+      target,
+      '<p>Body</p><script>document.body.dataset.lifecycle = "ran"</script>',
+      { signal: controller.signal },
+    )
+    await handle
+
+    expect(handle.signal.aborted).toBe(true)
+    expect(document.body.dataset.lifecycle).toBeUndefined()
+    expect(target.querySelector('script')).toBeNull()
+    target.remove()
+  })
+})
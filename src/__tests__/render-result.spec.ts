@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { renderDirectly } from '../renderers/directRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Render Result Tests
+ *
+ * Tests for the structured result renders resolve with:
+ * - Per-script status, error and duration
+ * - Skipped scripts after an abort
+ * - Injected @font-face rules
+ * - Stylesheets that failed to fetch
+ */
+describe('Render Result', () => {
+  let ctx: ShadowTestContext
+  let target: HTMLElement
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    target.remove()
+    document.getElementById('shadow-dom-fonts')?.remove()
+    delete document.body.dataset.result
+  })
+
+  it('reports executed inline scripts in document order', async () => {
+    const result = await renderDirectly(
+      target,
+      '<script>window.__first = 1</script><script defer>window.__second = 2</script>',
+    )
+
+    expect(result.aborted).toBe(false)
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed'])
+    expect(result.scripts[0].meta.code).toContain('__first')
+    expect(result.scripts[1].meta.isDefer).toBe(true)
+    expect(result.scripts[0].duration).toBeGreaterThanOrEqual(0)
+  })
+
+  it('reports inline scripts that throw as failed', async () => {
+    // Keep the uncaught error from being reported as a test failure
+    const swallow = (e: ErrorEvent): void => e.preventDefault()
+    window.addEventListener('error', swallow)
+
+    try {
+      const result = await renderDirectly(
+        target,
+        '<script>throw new Error("boom")</script><script>window.__after = true</script>',
+      )
+
+      expect(result.scripts[0].status).toBe('failed')
+      expect((result.scripts[0].error as Error).message).toBe('boom')
+      expect(result.scripts[1].status).toBe('executed')
+    } finally {
+      window.removeEventListener('error', swallow)
+    }
+  })
+
+  it('reports external scripts that fail to load as failed', async () => {
+    const result = await renderDirectly(
+      target,
+      '<script src="http://127.0.0.1:9/missing.js"></script>',
+    )
+
+    expect(result.scripts).toHaveLength(1)
+    expect(result.scripts[0].status).toBe('failed')
+    expect(result.scripts[0].error).toBeInstanceOf(Error)
+  })
+
+  it('reports scripts that never ran as skipped when the render is aborted', async () => {
+    const controller = new AbortController()
+    const html = `<script>document.body.dataset.result = '1'</script><script>document.body.dataset.result = '2'</script>`
+
+    const handle = renderDirectly(target, html, { signal: controller.signal })
+    controller.abort()
+    const result = await handle
+
+    expect(result.aborted).toBe(true)
+    // The first script runs synchronously before the render can be aborted
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'skipped'])
+    expect(document.body.dataset.result).toBe('1')
+  })
+
+  it('lists the injected @font-face rules', async () => {
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<style>@font-face { font-family: "ResultFont"; src: url(data:font/woff2;base64,AA==); }</style>`,
+    )
+
+    expect(result.fontFaceRules).toHaveLength(1)
+    expect(result.fontFaceRules[0]).toContain('ResultFont')
+    expect(result.failedStylesheets).toEqual([])
+  })
+
+  it('lists stylesheets that failed to fetch', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('', { status: 404 })),
+    )
+    const onStylesheetError = vi.fn()
+
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      '<link rel="stylesheet" href="https://cdn.example.com/missing.css"><p>Hi</p>',
+      { fontFaceOptions: { onStylesheetError } },
+    )
+
+    expect(result.failedStylesheets).toHaveLength(1)
+    expect(result.failedStylesheets[0].url).toBe('https://cdn.example.com/missing.css')
+    expect((result.failedStylesheets[0].error as Error).message).toContain('404')
+    expect(onStylesheetError).toHaveBeenCalledWith(
+      'https://cdn.example.com/missing.css',
+      expect.any(Error),
+    )
+  })
+})
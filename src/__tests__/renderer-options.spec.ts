@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { renderDirectly } from '../renderers/directRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Renderer Options Tests
+ *
+ * Tests for the options object accepted by both renderers:
+ * - Script execution on/off
+ * - Font-face injection on/off and custom style element ID
+ * - Base URL override
+ */
+describe('Renderer Options', () => {
+  let ctx: ShadowTestContext
+  let directTarget: HTMLElement
+
+  const fontHtml = `
+    <style>
+      @font-face { font-family: 'OptFont'; src: url('fonts/opt.woff2') format('woff2'); }
+    </style>
+    <p>Fonts</p>
+  `
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    directTarget = document.createElement('div')
+    document.body.appendChild(directTarget)
+    delete document.body.dataset.optionsScript
+  })
+
+  afterEach(() => {
+    teardownShadowTest(ctx.host)
+    directTarget.remove()
+    document.getElementById('custom-fonts')?.remove()
+  })
+
+  it('executes scripts by default', async () => {
+    await renderDirectly(
+      directTarget,
+      '<script>document.body.dataset.optionsScript = "ran"</script>',
+    )
+
+    expect(document.body.dataset.optionsScript).toBe('ran')
+  })
+
+  it('drops scripts when scripts is "none"', async () => {
+    await renderDirectly(
+      directTarget,
+      '<p>Text</p><script>document.body.dataset.optionsScript = "ran"</script>',
+      { scripts: 'none' },
+    )
+
+    expect(document.body.dataset.optionsScript).toBeUndefined()
+    expect(directTarget.querySelector('script')).toBeNull()
+    expect(directTarget.querySelector('p')?.textContent).toBe('Text')
+  })
+
+  it('skips font-face injection when disabled', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, fontHtml, { injectFontFaces: false })
+
+    expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('Fonts')
+  })
+
+  it('injects font faces into a custom style element', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, fontHtml, {
+      fontFaceOptions: { styleElementId: 'custom-fonts' },
+    })
+
+    expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+    expect(document.getElementById('custom-fonts')?.textContent).toContain('OptFont')
+  })
+
+  it('rebases font URLs against the base URL override', async () => {
+    await renderIntoShadowRoot(ctx.shadowRoot, fontHtml, {
+      baseUrl: 'https://cdn.example.com/assets/',
+    })
+
+    const fonts = document.getElementById('shadow-dom-fonts')?.textContent
+    expect(fonts).toContain('https://cdn.example.com/assets/fonts/opt.woff2')
+  })
+
+  it('resolves script sources against the base URL override', async () => {
+    await renderDirectly(directTarget, '<script src="lib.js"></script>', {
+      baseUrl: 'http://127.0.0.1:9/assets/',
+    })
+
+    expect(directTarget.querySelector('script')?.getAttribute('src')).toBe(
+      'http://127.0.0.1:9/assets/lib.js',
+    )
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { filterFontFaceSources, isAllowedUrl } from '../extras/resourcePolicy'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Resource Policy Tests
+ *
+ * Tests for the origin allowlist of rendered content:
+ * - Origins, subdomain wildcards, schemes and 'self' are matched
+ * - Disallowed scripts and stylesheets are stripped before insertion and reported
+ * - @import targets and @font-face sources are checked while collecting fonts
+ */
+describe('Resource Policy', () => {
+  describe('isAllowedUrl', () => {
+    it('matches origins, wildcards, schemes and self', () => {
+      const origins = ['https://cdn.example.com', 'https://*.fonts.test', 'data:', "'self'"]
+
+      expect(isAllowedUrl('https://cdn.example.com/a.js', origins)).toBe(true)
+      expect(isAllowedUrl('https://eu.fonts.test/a.woff2', origins)).toBe(true)
+      expect(isAllowedUrl('data:font/woff2;base64,AAAA', origins)).toBe(true)
+      expect(isAllowedUrl(new URL('/local.js', location.href).href, origins)).toBe(true)
+      expect(isAllowedUrl('http://cdn.example.com/a.js', origins)).toBe(false)
+      expect(isAllowedUrl('https://fonts.test/a.woff2', origins)).toBe(false)
+      expect(isAllowedUrl('https://tracker.test/t.js', undefined)).toBe(true)
+      expect(isAllowedUrl('https://tracker.test/t.js', [])).toBe(false)
+    })
+
+    it('drops @font-face rules without an allowed source', () => {
+      const policy = { fonts: ['https://fonts.example.com'] }
+      const blocked: string[] = []
+      const report = ({ url }: { url: string }): number => blocked.push(url)
+
+      const mixed = filterFontFaceSources(
+        `@font-face { font-family: A; src: url(https://evil.test/a.woff2) format('woff2'), local(A), url("https://fonts.example.com/a.woff"); }`,
+        policy,
+        report,
+      )
+      const none = filterFontFaceSources(
+        `@font-face { font-family: B; src: url(https://evil.test/b.woff2); }`,
+        policy,
+        report,
+      )
+
+      expect(mixed).toContain('src: local(A), url("https://fonts.example.com/a.woff")')
+      expect(mixed).not.toContain('evil.test')
+      expect(none).toBeNull()
+      expect(blocked).toEqual(['https://evil.test/a.woff2', 'https://evil.test/b.woff2'])
+    })
+  })
+
+  describe('rendering', () => {
+    let ctx: ShadowTestContext
+    let target: HTMLElement
+
+    beforeEach(() => {
+      ctx = setupShadowTest()
+      target = document.createElement('div')
+      document.body.appendChild(target)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      teardownShadowTest(ctx.host)
+      clearElement(target)
+      target.remove()
+    })
+
+    it('strips disallowed scripts before insertion and reports them', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(`window.allowedRan = true`)),
+      )
+
+      const result = await renderDirectly(
+        target,
+        `<script src="https://cdn.example.com/app.js"></script>
+        <script src="https://tracker.test/pixel.js"></script>
+        <link rel="preload" as="script" href="https://tracker.test/next.js">`,
+        { scopedDocument: true, resourcePolicy: { scripts: ['https://cdn.example.com'] } },
+      )
+
+      expect(result.scripts).toHaveLength(1)
+      expect(result.scripts[0].status).toBe('executed')
+      expect(target.innerHTML).not.toContain('tracker.test')
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(result.blockedResources).toEqual([
+        { kind: 'script', url: 'https://tracker.test/pixel.js' },
+        { kind: 'script', url: 'https://tracker.test/next.js' },
+      ])
+    })
+
+    it('checks stylesheets, @import targets and font sources', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          async () =>
+            new Response(`@import url("https://evil.test/more.css");
+            @font-face { font-family: Brand; src: url(https://fonts.example.com/brand.woff2); }
+            @font-face { font-family: Other; src: url(https://evil.test/other.woff2); }`),
+        ),
+      )
+
+      const result = await renderIntoShadowRoot(
+        ctx.shadowRoot,
+        `<style>@import url("https://evil.test/inline.css"); p { color: red }</style>
+        <link rel="stylesheet" href="https://cdn.example.com/site.css">
+        <link rel="stylesheet" href="https://evil.test/site.css">`,
+        {
+          fontFaceOptions: { styleElementId: 'policy-fonts' },
+          resourcePolicy: {
+            stylesheets: ['https://cdn.example.com'],
+            fonts: ['https://fonts.example.com'],
+          },
+        },
+      )
+
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(result.fontFaceRules).toHaveLength(1)
+      expect(result.fontFaceRules[0]).toContain('Brand')
+      expect(ctx.shadowRoot.querySelector('style')?.textContent).not.toContain('@import')
+      expect(ctx.shadowRoot.querySelectorAll('link')).toHaveLength(1)
+      expect(result.blockedResources.map((r) => `${r.kind} ${r.url}`)).toEqual([
+        'stylesheet https://evil.test/site.css',
+        'stylesheet https://evil.test/inline.css',
+        'font https://evil.test/other.woff2',
+        'stylesheet https://evil.test/more.css',
+      ])
+      document.getElementById('policy-fonts')?.remove()
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getSanitizePreset, sanitizeContent } from '../extras/sanitizer'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+const parse = (html: string): Document => new DOMParser().parseFromString(html, 'text/html')
+
+/**
+ * Sanitizer Tests
+ *
+ * Tests for the built-in sanitizer:
+ * - Element and attribute allowlists, event handlers and script URLs
+ * - <style> filtering and the email preset
+ * - Sanitizing before script extraction, keeping only trusted scripts
+ */
+describe('Sanitizer', () => {
+  describe('sanitizeContent', () => {
+    it('applies the allowlists and removes handlers and script URLs', () => {
+      const doc = parse(`<div data-id="1" onclick="steal()" formaction="x">
+        <x-widget><b>kept</b></x-widget>
+        <iframe src="https://evil.test"></iframe>
+        <a href=" java\tscript:alert(1)">bad</a><a href="/page">good</a>
+        <img src="data:image/png;base64,AAAA" srcset="javascript:alert(1) 2x">
+        <script>steal()</script>
+      </div>`)
+
+      sanitizeContent(doc, 'no-scripts')
+
+      const div = doc.querySelector('div')!
+      expect(div.getAttributeNames()).toEqual(['data-id'])
+      expect(div.querySelector('x-widget')).toBeNull()
+      expect(div.querySelector('b')?.textContent).toBe('kept')
+      expect(doc.querySelector('iframe, script')).toBeNull()
+      expect(Array.from(doc.querySelectorAll('a'), (a) => a.getAttribute('href'))).toEqual([
+        null,
+        '/page',
+      ])
+      expect(doc.querySelector('img')?.getAttribute('src')).toContain('data:image/png')
+      expect(doc.querySelector('img')?.hasAttribute('srcset')).toBe(false)
+    })
+
+    it('filters styles and keeps to the email subset', () => {
+      const doc = parse(`<style>@import url("https://evil.test/a.css");
+        p { width: expression(alert(1)); background: url(javascript:alert(1)) }</style>
+        <link rel="stylesheet" href="/site.css">
+        <form><input name="q"></form>
+        <table><tr><td bgcolor="#eee" style="behavior: url(x.htc); color: red">cell</td></tr></table>`)
+
+      sanitizeContent(doc, 'email')
+
+      const css = doc.querySelector('style')?.textContent ?? ''
+      expect(css).not.toContain('@import')
+      expect(css).not.toMatch(/expression\(|javascript:/)
+      expect(doc.querySelector('link, form, input')).toBeNull()
+      expect(doc.querySelector('td')?.getAttribute('bgcolor')).toBe('#eee')
+      expect(doc.querySelector('td')?.getAttribute('style')).not.toContain('behavior')
+      expect(doc.querySelector('td')?.getAttribute('style')).toContain('color: red')
+    })
+
+    it('lets options extend a preset', () => {
+      const doc = parse(`<video src="/a.mp4" onplay="x()"></video><form></form>`)
+      const email = getSanitizePreset('email')
+
+      sanitizeContent(doc, {
+        preset: 'email',
+        allowedElements: [...email.allowedElements, 'video'],
+        allowedAttributes: [...email.allowedAttributes, 'controls'],
+      })
+
+      expect(doc.querySelector('video')?.outerHTML).toBe('<video src="/a.mp4"></video>')
+      expect(doc.querySelector('form')).toBeNull()
+    })
+  })
+
+  describe('rendering', () => {
+    let ctx: ShadowTestContext
+    let target: HTMLElement
+
+    beforeEach(() => {
+      ctx = setupShadowTest()
+      target = document.createElement('div')
+      document.body.appendChild(target)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      teardownShadowTest(ctx.host)
+      clearElement(target)
+      target.remove()
+    })
+
+    it('sanitizes the parsed document while preserving its structure', async () => {
+      const result = await renderIntoShadowRoot(
+        ctx.shadowRoot,
+        `<html><head><title>Mail</title></head>
+        <body><p onmouseover="track()">Hello</p><script>track()</script></body></html>`,
+        { sanitize: 'no-scripts' },
+      )
+
+      expect(result.scripts).toHaveLength(0)
+      expect(ctx.shadowRoot.querySelector('head title')?.textContent).toBe('Mail')
+      expect(ctx.shadowRoot.querySelector('body p')?.outerHTML).toBe('<p>Hello</p>')
+    })
+
+    it('keeps only trusted scripts', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(`window.trustedRan = true`)),
+      )
+
+      const result = await renderDirectly(
+        target,
+        `<script src="/app.js"></script>
+        <script src="https://cdn.evil.test/app.js"></script>
+        <script>window.inlineRan = true</script>
+        <p onclick="steal()">content</p>`,
+        { scopedDocument: true, sanitize: 'trusted-scripts' },
+      )
+
+      expect(result.scripts.map((r) => [r.meta.attrs.src, r.status])).toEqual([
+        ['/app.js', 'executed'],
+      ])
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect((window as unknown as Record<string, unknown>).inlineRan).toBeUndefined()
+      expect(target.querySelector('p')?.hasAttribute('onclick')).toBe(false)
+    })
+
+    it('checks the origin of scripts against the base URL they load from', () => {
+      const html = `<script src="x.js"></script>`
+      const partnerDoc = parse(html)
+      const ownDoc = parse(html)
+
+      sanitizeContent(partnerDoc, 'trusted-scripts', 'http://127.0.0.1:9/partner/')
+      sanitizeContent(ownDoc, 'trusted-scripts', `${location.origin}/partner/`)
+
+      expect(partnerDoc.querySelectorAll('script')).toHaveLength(0)
+      expect(ownDoc.querySelectorAll('script')).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { createScopedDocument } from '../scripts/scopedDocument'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Scoped Document Tests
+ *
+ * Tests for the opt-in `scopedDocument` mode:
+ * - Query methods resolve against the render root
+ * - Structural elements map to the rendered html/head/body
+ * - Other members fall through to the real document
+ * - External scripts are fetched and run with the same scope
+ * - Top-level lexical declarations stay local to their script
+ */
+describe('Scoped Document', () => {
+  let ctx: ShadowTestContext
+  let first: HTMLElement
+  let second: HTMLElement
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    first = document.createElement('div')
+    second = document.createElement('div')
+    document.body.append(first, second)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+    clearElement(first)
+    clearElement(second)
+    first.remove()
+    second.remove()
+  })
+
+  const renderTree = (html: string): void => {
+    const doc = new DOMParser().parseFromString(html, 'text/html')
+    ctx.shadowRoot.appendChild(document.importNode(doc.documentElement, true))
+  }
+
+  it('resolves queries against the shadow tree', () => {
+    renderTree('<p id="greeting" class="a b" name="n">Hi</p>')
+    const scoped = createScopedDocument(ctx.shadowRoot)
+
+    expect(scoped.getElementById('greeting')?.textContent).toBe('Hi')
+    expect(scoped.querySelector('.a')?.id).toBe('greeting')
+    expect(scoped.querySelectorAll('p')).toHaveLength(1)
+    expect(scoped.getElementsByClassName('b a')).toHaveLength(1)
+    expect(scoped.getElementsByName('n')).toHaveLength(1)
+    expect(scoped.getElementsByTagName('p')).toHaveLength(1)
+  })
+
+  it('maps body, head and documentElement to the rendered elements', () => {
+    renderTree('<p>Hi</p>')
+    const scoped = createScopedDocument(ctx.shadowRoot)
+
+    expect(scoped.body).toBe(ctx.shadowRoot.querySelector('body'))
+    expect(scoped.head).toBe(ctx.shadowRoot.querySelector('head'))
+    expect(scoped.documentElement).toBe(ctx.shadowRoot.querySelector('html'))
+  })
+
+  it('falls through to the real document for everything else', () => {
+    const scoped = createScopedDocument(ctx.shadowRoot)
+
+    expect(scoped.body).toBe(document.body)
+    expect(scoped.createElement('span').tagName).toBe('SPAN')
+    expect(scoped.createElement).toBe(scoped.createElement)
+    scoped.title = 'Scoped title'
+    expect(document.title).toBe('Scoped title')
+  })
+
+  it('lets rendered scripts query only their own root', async () => {
+    const html = `<span id="out"></span>
+      <script>document.getElementById('out').textContent = 'set by script'</script>`
+
+    await renderDirectly(first, html, { scopedDocument: true })
+    await renderDirectly(second, html, { scopedDocument: true })
+
+    expect(first.querySelector('span')?.textContent).toBe('set by script')
+    expect(second.querySelector('span')?.textContent).toBe('set by script')
+  })
+
+  it('keeps var declarations global and leaves data blocks untouched', async () => {
+    const result = await renderDirectly(
+      first,
+      `<script type="application/json" id="data">{"count": 2}</script>
+       <script>var scopedGlobal = JSON.parse(document.getElementById('data').textContent).count</script>
+       <script>document.body.dataset.scoped = String(scopedGlobal)</script>`,
+      { scopedDocument: true },
+    )
+
+    expect(first.querySelector('#data')?.textContent).toBe('{"count": 2}')
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed', 'executed'])
+    expect(document.body.dataset.scoped).toBe('2')
+    delete document.body.dataset.scoped
+  })
+
+  it('keeps top-level let, const and class declarations local to their script', async () => {
+    const result = await renderDirectly(
+      first,
+      `<script>let scopedLet = 1; const scopedConst = 2; class ScopedClass {}</script>
+       <script>document.body.dataset.lexical = typeof scopedLet + typeof ScopedClass</script>
+       <script>scopedConst</script>`,
+      { scopedDocument: true },
+    )
+
+    expect(document.body.dataset.lexical).toBe('undefinedundefined')
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed', 'failed'])
+    expect((result.scripts[2].error as Error).name).toBe('ReferenceError')
+    delete document.body.dataset.lexical
+  })
+
+  it('fetches external scripts and runs them with the scoped document', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(`document.getElementById('out').textContent = 'external'`)),
+    )
+
+    const result = await renderDirectly(
+      first,
+      '<span id="out"></span><script src="https://cdn.example.com/widget.js"></script>',
+      { scopedDocument: true },
+    )
+
+    expect(result.scripts[0].status).toBe('executed')
+    expect(first.querySelector('#out')?.textContent).toBe('external')
+    expect(fetch).toHaveBeenCalledWith('https://cdn.example.com/widget.js', expect.any(Object))
+  })
+
+  it('reports external scripts that fail to fetch as failed', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('', { status: 500 })),
+    )
+
+    const result = await renderDirectly(
+      first,
+      '<script src="https://cdn.example.com/broken.js"></script>',
+      { scopedDocument: true },
+    )
+
+    expect(result.scripts[0].status).toBe('failed')
+    expect((result.scripts[0].error as Error).message).toContain('500')
+  })
+})
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { applyScriptOverride } from '../scripts/scriptApproval'
+import type { IScriptMeta } from '../extras/types'
+
+/**
+ * Script Approval Tests
+ *
+ * Tests for the beforeScriptExecute hook:
+ * - Scripts can be skipped, or run with replaced code, src or attributes
+ * - Async decisions keep the document order
+ * - A throwing hook fails the script without running it
+ * - A src set by the hook must still pass the resource policy
+ */
+describe('Script Approval', () => {
+  let target: HTMLElement
+
+  const log = `<span id="log"></span>`
+  const append = (text: string): string =>
+    `<script>document.getElementById('log').textContent += '${text}'</script>`
+
+  beforeEach(() => {
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    clearElement(target)
+    target.remove()
+  })
+
+  it('skips scripts the hook rejects', async () => {
+    const result = await renderDirectly(target, `${log}${append('a')}${append('b')}`, {
+      beforeScriptExecute: (meta) => !meta.code?.includes(`'a'`),
+    })
+
+    expect(result.scripts.map((r) => r.status)).toEqual(['skipped', 'executed'])
+    expect(target.querySelector('#log')?.textContent).toBe('b')
+    expect(target.querySelectorAll('script')).toHaveLength(2)
+  })
+
+  it('replaces the code of a script and reports it as written', async () => {
+    const result = await renderDirectly(target, `${log}${append('legacy')}`, {
+      beforeScriptExecute: (meta) => ({ code: meta.code!.replace('legacy', 'modern') }),
+    })
+
+    expect(target.querySelector('#log')?.textContent).toBe('modern')
+    expect(result.scripts[0].meta.code).toContain('legacy')
+  })
+
+  it('waits for async decisions in document order', async () => {
+    await renderDirectly(target, `${log}${append('a')}${append('b')}${append('c')}`, {
+      beforeScriptExecute: async (meta) => {
+        await new Promise((resolve) => setTimeout(resolve, meta.code?.includes(`'a'`) ? 20 : 1))
+        return true
+      },
+    })
+
+    expect(target.querySelector('#log')?.textContent).toBe('abc')
+  })
+
+  it('rewrites the src of external scripts', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(`document.getElementById('log').textContent = 'v2'`)),
+    )
+
+    const result = await renderDirectly(
+      target,
+      `${log}<script src="https://cdn.example.com/analytics-v1.js"></script>`,
+      {
+        scopedDocument: true,
+        beforeScriptExecute: (meta) =>
+          meta.attrs.src?.includes('analytics-v1') && { src: 'https://cdn.example.com/v2.js' },
+      },
+    )
+
+    expect(result.scripts[0].status).toBe('executed')
+    expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual([
+      'https://cdn.example.com/v2.js',
+    ])
+    expect(target.querySelector('#log')?.textContent).toBe('v2')
+  })
+
+  it('blocks a src the resource policy does not allow', async () => {
+    vi.stubGlobal('fetch', vi.fn())
+
+    const result = await renderDirectly(target, `<script src="/app.js"></script>`, {
+      scopedDocument: true,
+      resourcePolicy: { scripts: ["'self'"] },
+      beforeScriptExecute: () => ({ src: 'https://tracker.test/t.js' }),
+    })
+
+    expect(result.scripts[0].status).toBe('skipped')
+    expect(result.blockedResources).toEqual([{ kind: 'script', url: 'https://tracker.test/t.js' }])
+    expect(fetch).not.toHaveBeenCalled()
+    expect(target.querySelector('script')).toBeNull()
+  })
+
+  it('fails scripts without running them when the hook throws', async () => {
+    const error = new Error('policy unavailable')
+    const result = await renderDirectly(target, `${log}${append('a')}`, {
+      beforeScriptExecute: async () => {
+        throw error
+      },
+    })
+
+    expect(result.scripts[0]).toMatchObject({ status: 'failed', error })
+    expect(target.querySelector('#log')?.textContent).toBe('')
+  })
+
+  it('derives the flags of a script from its new attributes', () => {
+    const meta: IScriptMeta = {
+      id: 'x',
+      attrs: { src: 'a.js', integrity: 'sha384-abc', async: '' },
+      code: null,
+      hasSrc: true,
+      isAsync: true,
+      isDefer: false,
+      isModule: false,
+    }
+
+    expect(
+      applyScriptOverride(meta, { code: 'run()', attrs: { async: null, type: 'module' } }),
+    ).toMatchObject({
+      attrs: { type: 'module' },
+      code: 'run()',
+      hasSrc: false,
+      isAsync: false,
+      isModule: true,
+    })
+  })
+})
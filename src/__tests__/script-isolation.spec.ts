@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+
+/**
+ * Script Isolation Tests
+ *
+ * Tests for the `scriptIsolation` option:
+ * - "global" keeps top-level lexical declarations shared, so re-rendering throws
+ * - "block" lets the same HTML be rendered again while `var` stays global
+ * - "module" turns inline classic scripts into module scripts
+ * - Data blocks are left untouched
+ */
+describe('Script Isolation', () => {
+  let target: HTMLElement
+
+  // Keep the uncaught redeclaration errors from being reported as test failures
+  const swallow = (e: ErrorEvent): void => e.preventDefault()
+
+  beforeEach(() => {
+    target = document.createElement('div')
+    document.body.appendChild(target)
+    window.addEventListener('error', swallow)
+  })
+
+  afterEach(() => {
+    window.removeEventListener('error', swallow)
+    clearElement(target)
+    target.remove()
+    delete document.body.dataset.embed
+  })
+
+  it('fails to re-render top-level let/const/class by default', async () => {
+    const html = `<script>const globalEmbed = 1</script>`
+
+    const first = await renderDirectly(target, html)
+    const second = await renderDirectly(target, html)
+
+    expect(first.scripts[0].status).toBe('executed')
+    expect(second.scripts[0].status).toBe('failed')
+    expect((second.scripts[0].error as Error).name).toBe('SyntaxError')
+  })
+
+  it('re-renders block-isolated scripts without redeclaration errors', async () => {
+    const render = (count: number) =>
+      renderDirectly(
+        target,
+        `<script>
+          const blockEmbed = { count: ${count} }
+          let label = 'count: ' + blockEmbed.count
+          class BlockWidget {}
+          document.body.dataset.embed = label
+        </script>`,
+        { scriptIsolation: 'block' },
+      )
+
+    await render(1)
+    const result = await render(2)
+
+    expect(result.scripts[0].status).toBe('executed')
+    expect(document.body.dataset.embed).toBe('count: 2')
+  })
+
+  it('keeps var declarations and window assignments global in block mode', async () => {
+    const result = await renderDirectly(
+      target,
+      `<script>var sharedVar = 'var'; window.sharedProp = 'window'</script>
+       <script>document.body.dataset.embed = sharedVar + ',' + sharedProp</script>`,
+      { scriptIsolation: 'block' },
+    )
+
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed', 'executed'])
+    expect(document.body.dataset.embed).toBe('var,window')
+  })
+
+  it('runs inline classic scripts as modules in module mode', async () => {
+    await renderDirectly(
+      target,
+      `<script>const moduleEmbed = 1</script>
+       <script type="application/json">{"data": true}</script>`,
+      { scriptIsolation: 'module' },
+    )
+
+    const [classic, data] = Array.from(target.querySelectorAll('script'))
+    expect(classic.type).toBe('module')
+    expect(classic.textContent).toBe('const moduleEmbed = 1')
+    expect(data.type).toBe('application/json')
+  })
+})
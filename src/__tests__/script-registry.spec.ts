@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { clearScriptRegistry } from '../scripts/scriptRegistry'
+
+/**
+ * Script Registry Tests
+ *
+ * Tests for loading external scripts once across renders:
+ * - A script an earlier render loaded is skipped
+ * - A script that is still loading is waited for instead of loaded again
+ * - Failed loads are retried by the next render
+ * - An aborted render keeps its claim while its script element is still loading
+ * - The data-dedupe attribute overrides the option
+ */
+describe('Script Registry', () => {
+  let first: HTMLElement
+  let second: HTMLElement
+
+  const library = `<span class="log"></span>
+    <script src="https://cdn.example.com/lib.js"></script>`
+
+  // Serves a script that marks the render root it runs in
+  const stubFetch = (status = 200): void => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        return new Response(`document.querySelector('.log').textContent = 'loaded'`, { status })
+      }),
+    )
+  }
+
+  beforeEach(() => {
+    first = document.createElement('div')
+    second = document.createElement('div')
+    document.body.append(first, second)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    clearScriptRegistry()
+    clearElement(first)
+    clearElement(second)
+    first.remove()
+    second.remove()
+  })
+
+  it('skips a script an earlier render loaded', async () => {
+    stubFetch()
+    const options = { scopedDocument: true, dedupeScripts: true }
+
+    await renderDirectly(first, library, options)
+    const result = await renderDirectly(second, library, options)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(result.scripts[0].status).toBe('skipped')
+    expect(first.querySelector('.log')?.textContent).toBe('loaded')
+    expect(second.querySelector('.log')?.textContent).toBe('')
+    expect(second.querySelector('script')?.getAttribute('src')).toBe(
+      'https://cdn.example.com/lib.js',
+    )
+  })
+
+  it('waits for a script that is still loading instead of running it again', async () => {
+    stubFetch()
+    const options = { scopedDocument: true, dedupeScripts: true }
+
+    const [a, b] = await Promise.all([
+      renderDirectly(first, library, options),
+      renderDirectly(second, library, options),
+    ])
+
+    expect(a.scripts[0].status).toBe('executed')
+    expect(b.scripts[0].status).toBe('skipped')
+    expect(b.scripts[0].duration).toBeGreaterThan(0)
+    expect(second.querySelector('.log')?.textContent).toBe('')
+  })
+
+  it('loads the script again when the earlier load failed', async () => {
+    stubFetch(500)
+    const options = { scopedDocument: true, dedupeScripts: true }
+    const failed = await renderDirectly(first, library, options)
+
+    stubFetch()
+    const result = await renderDirectly(second, library, options)
+
+    expect(failed.scripts[0].status).toBe('failed')
+    expect(result.scripts[0].status).toBe('executed')
+    expect(second.querySelector('.log')?.textContent).toBe('loaded')
+  })
+
+  it('keeps the claim of an aborted render while its script element loads', async () => {
+    // The render is aborted as soon as its script element is inserted and loading
+    const controller = new AbortController()
+    const inserted = new Promise<Element>((resolve) => {
+      const observer = new MutationObserver(() => {
+        const script = first.querySelector('script')
+        if (script) {
+          observer.disconnect()
+          controller.abort()
+          resolve(script)
+        }
+      })
+      observer.observe(first, { childList: true, subtree: true })
+    })
+    const aborted = renderDirectly(first, library, {
+      dedupeScripts: true,
+      signal: controller.signal,
+    })
+    const loading = await inserted
+
+    let claimedTooEarly: boolean | undefined
+    const settled = new Promise<void>((resolve) => {
+      const check = (): void => {
+        claimedTooEarly = !!second.querySelector('script')
+        resolve()
+      }
+      loading.addEventListener('load', check, { once: true })
+      loading.addEventListener('error', check, { once: true })
+    })
+    const render = renderDirectly(second, library, { dedupeScripts: true })
+    await settled
+    await render
+
+    expect((await aborted).scripts[0].status).toBe('skipped')
+    expect(claimedTooEarly).toBe(false)
+  })
+
+  it('lets the data-dedupe attribute override the option', async () => {
+    stubFetch()
+    await renderDirectly(
+      first,
+      `<span class="log"></span><script src="https://cdn.example.com/lib.js" data-dedupe></script>`,
+      { scopedDocument: true },
+    )
+    const result = await renderDirectly(
+      second,
+      `<span class="log"></span>
+      <script src="https://cdn.example.com/lib.js" data-dedupe="false"></script>`,
+      { scopedDocument: true, dedupeScripts: true },
+    )
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(result.scripts[0].status).toBe('executed')
+    expect(second.querySelector('.log')?.textContent).toBe('loaded')
+  })
+})
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { getRetryDelay } from '../renderers/scriptRetry'
+
+/**
+ * Script Timeout Tests
+ *
+ * Tests for time limits and retries of external scripts:
+ * - A script that does not load in time is reported as "timed-out"
+ * - Scripts after a timed-out script keep running
+ * - The overall time limit stops the remaining scripts
+ * - Transient failures are retried with backoff, client errors are not
+ */
+describe('Script Timeouts', () => {
+  let target: HTMLElement
+
+  // Never answers, but honors the abort signal like the real fetch
+  const hangingFetch = (_url: string, init?: RequestInit): Promise<Response> =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+    })
+
+  beforeEach(() => {
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    clearElement(target)
+    target.remove()
+  })
+
+  it('reports a script that does not load in time and runs the scripts after it', async () => {
+    vi.stubGlobal('fetch', vi.fn(hangingFetch))
+
+    const result = await renderDirectly(
+      target,
+      `<span id="log"></span>
+      <script src="https://cdn.example.com/slow.js"></script>
+      <script>document.getElementById('log').textContent = 'after'</script>`,
+      { scopedDocument: true, scriptTimeout: 20 },
+    )
+
+    expect(result.scripts.map((r) => r.status)).toEqual(['timed-out', 'executed'])
+    expect((result.scripts[0].error as DOMException).name).toBe('TimeoutError')
+    expect(target.querySelector('#log')?.textContent).toBe('after')
+  })
+
+  it('stops the remaining scripts when the overall time limit runs out', async () => {
+    vi.stubGlobal('fetch', vi.fn(hangingFetch))
+
+    const result = await renderDirectly(
+      target,
+      `<span id="log"></span>
+      <script src="https://cdn.example.com/slow.js"></script>
+      <script>document.getElementById('log').textContent = 'after'</script>`,
+      { scopedDocument: true, totalScriptTimeout: 20 },
+    )
+
+    expect(result.aborted).toBe(false)
+    expect(result.scripts.map((r) => r.status)).toEqual(['timed-out', 'skipped'])
+    expect(target.querySelector('#log')?.textContent).toBe('')
+  })
+
+  it('retries transient failures with backoff', async () => {
+    let calls = 0
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        ++calls < 3
+          ? new Response('', { status: 503 })
+          : new Response(`document.getElementById('log').textContent = 'loaded'`),
+      ),
+    )
+
+    const result = await renderDirectly(
+      target,
+      `<span id="log"></span><script src="https://cdn.example.com/flaky.js"></script>`,
+      { scopedDocument: true, scriptRetry: { retries: 2, delay: 1 } },
+    )
+
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(result.scripts[0].status).toBe('executed')
+    expect(target.querySelector('#log')?.textContent).toBe('loaded')
+  })
+
+  it('does not retry client errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('', { status: 404 })),
+    )
+
+    const result = await renderDirectly(
+      target,
+      `<script src="https://cdn.example.com/missing.js"></script>`,
+      { scopedDocument: true, scriptRetry: { retries: 2, delay: 1 } },
+    )
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(result.scripts[0].status).toBe('failed')
+    expect((result.scripts[0].error as { status: number }).status).toBe(404)
+  })
+
+  it('grows the retry delay up to its bound', () => {
+    const policy = { retries: 5, delay: 100, backoff: 3, maxDelay: 1000 }
+
+    expect([1, 2, 3, 4].map((retry) => getRetryDelay(policy, retry))).toEqual([100, 300, 900, 1000])
+  })
+})
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import { renderIntoShadowRoot } from '../renderers/shadowRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Script-Disabled Rendering Tests
+ *
+ * Tests for `scripts: 'none'`:
+ * - <noscript> content is promoted, whether it was parsed as text or as elements
+ * - Event handlers, javascript: URLs and scripts inside <noscript> are removed
+ * - Frames are sandboxed
+ * - Escaped text in <noscript> stays text, and promoted content is sanitized and policed
+ */
+describe('Script-disabled rendering', () => {
+  let ctx: ShadowTestContext
+  let target: HTMLElement
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    teardownShadowTest(ctx.host)
+    clearElement(target)
+    target.remove()
+  })
+
+  it('promotes noscript content parsed as text', async () => {
+    const result = await renderDirectly(
+      target,
+      `<noscript><p class="fallback">Enable <b>JavaScript</b></p><script>window.nested = 1</script>
+      <link rel="stylesheet" href="https://evil.test/a.css"></noscript>`,
+      { scripts: 'none', resourcePolicy: { stylesheets: [] } },
+    )
+
+    expect(target.querySelector('noscript')).toBeNull()
+    expect(target.querySelector('.fallback b')?.textContent).toBe('JavaScript')
+    expect(target.querySelector('script, link')).toBeNull()
+    expect(result.blockedResources).toEqual([
+      { kind: 'stylesheet', url: 'https://evil.test/a.css' },
+    ])
+  })
+
+  it('neutralizes handlers, javascript: URLs and frames', async () => {
+    await renderDirectly(
+      target,
+      `<a href="javascript:alert(1)" onclick="alert(2)">Link</a>
+      <a href="/safe">Safe</a>
+      <img src="/a.png" onerror="alert(3)">
+      <iframe sandbox="allow-scripts allow-forms"></iframe>`,
+      { scripts: 'none' },
+    )
+
+    const [link, safe] = Array.from(target.querySelectorAll('a'))
+    expect(link.getAttributeNames()).toEqual([])
+    expect(safe.getAttribute('href')).toBe('/safe')
+    expect(target.querySelector('img')?.hasAttribute('onerror')).toBe(false)
+    expect(target.querySelector('iframe')?.getAttribute('sandbox')).toBe('allow-forms')
+  })
+
+  it('promotes noscript content into the shadow root', async () => {
+    await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<html><head><noscript><style>.js-only { display: none }</style></noscript></head>
+      <body><noscript><p>No scripts</p></noscript><p onmouseover="x()">Body</p></body></html>`,
+      { scripts: 'none' },
+    )
+
+    expect(ctx.shadowRoot.querySelector('noscript')).toBeNull()
+    expect(ctx.shadowRoot.querySelector('head style')?.textContent).toContain('.js-only')
+    expect(ctx.shadowRoot.querySelector('body p')?.textContent).toBe('No scripts')
+    expect(ctx.shadowRoot.querySelector('[onmouseover]')).toBeNull()
+  })
+
+  it('keeps escaped noscript text inert and checks promoted content', async () => {
+    const result = await renderIntoShadowRoot(
+      ctx.shadowRoot,
+      `<p>x</p><noscript>&lt;iframe src="https://evil.test/"&gt;&lt;/iframe&gt;</noscript>
+      <noscript>Use &lt;b&gt;bold&lt;/b&gt;</noscript>
+      <noscript><link rel="stylesheet" href="https://blocked.test/a.css"></noscript>`,
+      {
+        scripts: 'none',
+        sanitize: 'no-scripts',
+        resourcePolicy: { stylesheets: ["'self'"] },
+      },
+    )
+
+    expect(ctx.shadowRoot.querySelector('noscript, iframe, link, b')).toBeNull()
+    expect(ctx.shadowRoot.textContent).toContain('<iframe src="https://evil.test/"></iframe>')
+    expect(ctx.shadowRoot.textContent).toContain('Use <b>bold</b>')
+    expect(result.blockedResources).toEqual([
+      { kind: 'stylesheet', url: 'https://blocked.test/a.css' },
+    ])
+  })
+})
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearElement, renderDirectly } from '../renderers/directRenderer'
+
+/**
+ * Side Effect Tracking Tests
+ *
+ * Tests for the opt-in `trackSideEffects` mode:
+ * - Intervals and timeouts are cleared when the root is cleared
+ * - Listeners added to window and document are removed
+ * - Globals created through `window` are deleted
+ * - Re-rendering tears down the side effects of the previous render
+ */
+describe('Side Effect Tracking', () => {
+  let target: HTMLElement
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    target = document.createElement('div')
+    document.body.appendChild(target)
+  })
+
+  afterEach(() => {
+    clearElement(target)
+    target.remove()
+    vi.useRealTimers()
+  })
+
+  const ticker = `<span id="ticks">0</span>
+    <script>
+      setInterval(function () {
+        var el = document.getElementById('ticks')
+        el.textContent = String(Number(el.textContent) + 1)
+      }, 10)
+    </script>`
+
+  it('clears intervals and timeouts when the root is cleared', async () => {
+    await renderDirectly(
+      target,
+      `${ticker}
+      <script>setTimeout(function () { document.body.dataset.late = 'yes' }, 100)</script>`,
+      { trackSideEffects: true },
+    )
+    const ticks = target.querySelector('#ticks')!
+
+    vi.advanceTimersByTime(30)
+    expect(ticks.textContent).toBe('3')
+
+    clearElement(target)
+    vi.advanceTimersByTime(200)
+
+    expect(ticks.textContent).toBe('3')
+    expect(document.body.dataset.late).toBeUndefined()
+  })
+
+  it('removes listeners added to window and document', async () => {
+    await renderDirectly(
+      target,
+      `<span id="clicks">0</span>
+      <script>
+        function count() {
+          var el = document.getElementById('clicks')
+          el.textContent = String(Number(el.textContent) + 1)
+        }
+        window.addEventListener('resize', count)
+        document.addEventListener('click', count)
+      </script>`,
+      { trackSideEffects: true },
+    )
+    const clicks = target.querySelector('#clicks')!
+
+    window.dispatchEvent(new Event('resize'))
+    document.dispatchEvent(new Event('click'))
+    expect(clicks.textContent).toBe('2')
+
+    clearElement(target)
+    window.dispatchEvent(new Event('resize'))
+    document.dispatchEvent(new Event('click'))
+
+    expect(clicks.textContent).toBe('2')
+  })
+
+  it('deletes globals created through window', async () => {
+    await renderDirectly(target, `<script>window.trackedWidget = { ready: true }</script>`, {
+      trackSideEffects: true,
+    })
+
+    expect(window).toHaveProperty('trackedWidget')
+
+    clearElement(target)
+
+    expect(window).not.toHaveProperty('trackedWidget')
+  })
+
+  it('tears down the previous render when re-rendering', async () => {
+    await renderDirectly(target, ticker, { trackSideEffects: true })
+    const first = target.querySelector('#ticks')!
+
+    await renderDirectly(target, ticker, { trackSideEffects: true })
+    vi.advanceTimersByTime(20)
+
+    expect(first.textContent).toBe('0')
+    expect(target.querySelector('#ticks')?.textContent).toBe('2')
+  })
+})
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderStreamIntoShadowRoot } from '../renderers/streamRenderer'
+import { setupShadowTest, teardownShadowTest, ShadowTestContext } from './test-utils'
+
+/**
+ * Streaming Renderer Tests
+ *
+ * Tests for progressive rendering from chunked HTML sources:
+ * - ReadableStream and async iterable sources
+ * - Progressive appending while the stream is still open
+ * - Incomplete scripts are held back until their closing tag arrives, even when a
+ *   comment contains one
+ * - Defer scripts wait for the end of the stream
+ * - Font-face collection as <style> elements arrive
+ * - Chunks arriving within a frame are parsed together
+ * - Scripts of a flush started at the next frame hold back further chunks
+ * - Aborting returns the source iterator without waiting for its next chunk
+ */
+describe('Streaming Renderer', () => {
+  let ctx: ShadowTestContext
+
+  beforeEach(() => {
+    ctx = setupShadowTest()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    teardownShadowTest(ctx.host)
+  })
+
+  it('renders chunks from a ReadableStream', async () => {
+    const chunks = ['<html><body><h1>Str', 'eamed</h1><p>Para', 'graph</p></body></html>']
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+
+    await renderStreamIntoShadowRoot(ctx.shadowRoot, stream)
+
+    expect(ctx.shadowRoot.querySelector('h1')?.textContent).toBe('Streamed')
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('Paragraph')
+  })
+
+  it('decodes binary chunks split inside multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode('<p>Grüße 👋</p>')
+    async function* source(): AsyncGenerator<Uint8Array> {
+      for (let i = 0; i < bytes.length; i += 3) {
+        yield bytes.slice(i, i + 3)
+      }
+    }
+
+    await renderStreamIntoShadowRoot(ctx.shadowRoot, source())
+
+    expect(ctx.shadowRoot.querySelector('p')?.textContent).toBe('Grüße 👋')
+  })
+
+  it('appends content progressively and keeps already rendered nodes', async () => {
+    const shadowRoot = ctx.shadowRoot
+    let firstItem: Element | null = null
+    async function* source(): AsyncGenerator<string> {
+      yield '<ul><li>One</li>'
+      firstItem = shadowRoot.querySelector('li')
+      expect(firstItem?.textContent).toBe('One')
+      yield '<li>Two</li></ul>'
+    }
+
+    await renderStreamIntoShadowRoot(shadowRoot, source())
+
+    const items = shadowRoot.querySelectorAll('li')
+    expect(items).toHaveLength(2)
+    expect(items[0]).toBe(firstItem)
+  })
+
+  it('holds back scripts until their closing tag arrives', async () => {
+    const shadowRoot = ctx.shadowRoot
+    async function* source(): AsyncGenerator<string> {
+      yield '<p>Before</p><script>var streamed ='
+      expect(shadowRoot.querySelector('script')).toBeNull()
+      yield ' 1</script><p>After</p>'
+    }
+
+    await renderStreamIntoShadowRoot(shadowRoot, source())
+
+    expect(shadowRoot.querySelector('script')?.textContent).toBe('var streamed = 1')
+    expect(shadowRoot.querySelectorAll('p')).toHaveLength(2)
+  })
+
+  it('ignores closing tags inside comments when holding back scripts', async () => {
+    const shadowRoot = ctx.shadowRoot
+    async function* source(): AsyncGenerator<string> {
+      yield '<!-- </script> --><p>Before</p><script>var commented ='
+      expect(shadowRoot.querySelector('p')?.textContent).toBe('Before')
+      expect(shadowRoot.querySelector('script')).toBeNull()
+      yield ' 1</script>'
+    }
+
+    const result = await renderStreamIntoShadowRoot(shadowRoot, source())
+
+    expect(shadowRoot.querySelector('script')?.textContent).toBe('var commented = 1')
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed'])
+  })
+
+  it('runs defer scripts only after the stream ends', async () => {
+    const shadowRoot = ctx.shadowRoot
+    async function* source(): AsyncGenerator<string> {
+      yield '<script defer>var deferred = 1</script>'
+      expect(shadowRoot.querySelector('script')).toBeNull()
+      yield '<p>Tail</p>'
+    }
+
+    await renderStreamIntoShadowRoot(shadowRoot, source())
+
+    expect(shadowRoot.querySelector('script')?.textContent).toBe('var deferred = 1')
+  })
+
+  it('collects font faces from streamed style elements', async () => {
+    async function* source(): AsyncGenerator<string> {
+      yield "<style>@font-face { font-family: 'Streamed'; src: url('a.wo"
+      yield "ff2'); }</style><p>Text</p>"
+    }
+
+    await renderStreamIntoShadowRoot(ctx.shadowRoot, source())
+
+    const fonts = document.getElementById('shadow-dom-fonts')?.textContent
+    expect(fonts).toContain("font-family: 'Streamed'")
+    expect(fonts).toContain('a.woff2')
+  })
+
+  it('parses chunks arriving within the same frame together', async () => {
+    const parse = vi.spyOn(DOMParser.prototype, 'parseFromString')
+    async function* tokens(): AsyncGenerator<string> {
+      for (let i = 0; i < 200; i++) {
+        yield `<span>${i}</span>`
+      }
+    }
+
+    await renderStreamIntoShadowRoot(ctx.shadowRoot, tokens())
+
+    expect(ctx.shadowRoot.querySelectorAll('span')).toHaveLength(200)
+    expect(parse.mock.calls.length).toBeLessThan(10)
+  })
+
+  it('holds back chunks while a flush started at the next frame runs scripts', async () => {
+    const frames: FrameRequestCallback[] = []
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) =>
+      frames.push(callback),
+    )
+    let approved = false
+    const beforeScriptExecute = async (): Promise<boolean> => {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      approved = true
+      return true
+    }
+    async function* source(): AsyncGenerator<string> {
+      yield '<p>First</p>'
+      // Buffered until the next frame, whose flush then waits for the approval
+      yield '<script>var held = 1</script>'
+      frames.shift()?.(0)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      yield '<p>Second</p>'
+      expect(approved).toBe(true)
+      yield '<p>Third</p>'
+    }
+
+    const result = await renderStreamIntoShadowRoot(ctx.shadowRoot, source(), {
+      beforeScriptExecute,
+    })
+
+    expect(result.scripts.map((r) => r.status)).toEqual(['executed'])
+    expect(ctx.shadowRoot.querySelectorAll('p')).toHaveLength(3)
+  })
+
+  it('returns the source iterator when aborted while waiting for a chunk', async () => {
+    const returned = vi.fn(async () => ({ done: true as const, value: undefined }))
+    let sent = false
+    const source: AsyncIterable<string> = {
+      [Symbol.asyncIterator]: () => ({
+        next: async () => {
+          if (sent) {
+            return new Promise<IteratorResult<string>>(() => {})
+          }
+          sent = true
+          return { done: false, value: '<p>First</p>' }
+        },
+        return: returned,
+      }),
+    }
+
+    const handle = renderStreamIntoShadowRoot(ctx.shadowRoot, source)
+    await vi.waitFor(() => expect(ctx.shadowRoot.querySelector('p')).toBeTruthy())
+    handle.dispose()
+    const result = await handle
+
+    expect(result.aborted).toBe(true)
+    expect(returned).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Resource Policy Implementation
+ *
+ * This module enforces `IHtmlRendererOptions.resourcePolicy`: a declarative list of
+ * origins rendered content may load scripts, stylesheets and fonts from, for content
+ * that is not fully trusted (e.g. partner-supplied HTML).
+ *
+ * What Is Checked:
+ * - `<script src>` and script/module preloads against `scripts`
+ * - `<link rel="stylesheet">`, style preloads and `@import` rules of `<style>` elements
+ *   against `stylesheets`
+ * - Font preloads, and `url()` sources of injected @font-face rules, against `fonts`
+ *
+ * Disallowed elements and rules are removed before the content is inserted, so the
+ * browser never requests them, and each one is reported.
+ *
+ * @module resourcePolicy
+ */
+
+import { replaceImportRules, resolveUrl } from '../styles/cssUtils'
+import type { IBlockedResource, IResourcePolicy, ResourceKind } from './types'
+
+/**
+ * Check whether a URL is allowed by a list of origins.
+ *
+ * @param url - The absolute URL to check
+ * @param origins - Allowed origins, subdomain wildcards, schemes, `'self'` or `*`;
+ *   undefined allows every URL
+ * @returns True when the URL may be loaded
+ *
+ * @example
+ * ```ts
+ * isAllowedUrl('https://cdn.example.com/a.js', ['https://*.example.com']); // true
+ * isAllowedUrl('https://tracker.test/t.js', ["'self'"]); // false
+ * ```
+ */
+export function isAllowedUrl(url: string, origins: string[] | undefined): boolean {
+  if (!origins) {
+    return true
+  }
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+  return origins.some((entry) => {
+    const allowed = entry.trim().toLowerCase()
+    if (allowed === '*') {
+      return true
+    }
+    if (allowed === "'self'") {
+      return parsed.origin === location.origin
+    }
+    if (/^[a-z][a-z\d+.-]*:$/.test(allowed)) {
+      return parsed.protocol === allowed
+    }
+    const wildcard = allowed.match(/^([a-z][a-z\d+.-]*:)\/\/\*\.([^/]+)$/)
+    if (wildcard) {
+      return parsed.protocol === wildcard[1] && parsed.host.endsWith(`.${wildcard[2]}`)
+    }
+    try {
+      return new URL(allowed).origin === parsed.origin
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Get the kind of resource a `<link>` loads, by its `rel` and `as` attributes.
+ */
+function getLinkKind(link: Element): ResourceKind | null {
+  const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/)
+  if (rel.includes('stylesheet')) {
+    return 'stylesheet'
+  }
+  if (rel.includes('modulepreload')) {
+    return 'script'
+  }
+  if (rel.includes('preload')) {
+    const as = (link.getAttribute('as') || '').toLowerCase()
+    if (as === 'script' || as === 'font') {
+      return as
+    }
+    if (as === 'style') {
+      return 'stylesheet'
+    }
+  }
+  return null
+}
+
+/**
+ * Origins allowed for a kind of resource.
+ */
+function getOrigins(policy: IResourcePolicy, kind: ResourceKind): string[] | undefined {
+  return kind === 'script' ? policy.scripts : kind === 'font' ? policy.fonts : policy.stylesheets
+}
+
+/**
+ * Remove the `@import` rules of a stylesheet whose target is not allowed.
+ *
+ * @param css - The stylesheet source
+ * @param policy - The resource policy
+ * @param baseUrl - URL relative `@import` targets resolve against
+ * @param report - Called for every removed `@import` target
+ * @returns The stylesheet without the disallowed `@import` rules
+ */
+export function stripBlockedImports(
+  css: string,
+  policy: IResourcePolicy,
+  baseUrl: string,
+  report: (resource: IBlockedResource) => void,
+): string {
+  return replaceImportRules(css, (rule) => {
+    const url = resolveUrl(rule.url.trim(), baseUrl)
+    if (isAllowedUrl(url, policy.stylesheets)) {
+      return css.slice(rule.start, rule.end)
+    }
+    report({ kind: 'stylesheet', url })
+    return ''
+  })
+}
+
+/**
+ * Split a comma-separated CSS value at its top-level commas.
+ */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]
+    if (ch === '(') {
+      depth++
+    } else if (ch === ')') {
+      depth--
+    } else if (ch === ',' && depth === 0) {
+      parts.push(value.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(value.slice(start))
+  return parts
+}
+
+/**
+ * Remove the `url()` sources of an @font-face rule whose origin is not allowed.
+ *
+ * `local()` sources are kept. A rule left without any source is dropped.
+ *
+ * @param rule - The @font-face rule, with absolute URLs
+ * @param policy - The resource policy
+ * @param report - Called for every removed source
+ * @returns The rule with allowed sources only, or null when no source is left
+ *
+ * @example
+ * ```ts
+ * filterFontFaceSources(rule, { fonts: ['https://fonts.example.com'] }, console.warn);
+ * ```
+ */
+export function filterFontFaceSources(
+  rule: string,
+  policy: IResourcePolicy,
+  report: (resource: IBlockedResource) => void,
+): string | null {
+  if (!policy.fonts) {
+    return rule
+  }
+  let hasSource = true
+  const filtered = rule.replace(
+    /(^|[{;\s])src\s*:([^;}]*)/gi,
+    (_m, lead: string, value: string) => {
+      const sources = splitTopLevel(value).filter((source) => {
+        const urls = Array.from(source.matchAll(/url\(\s*(?:"([^"]*)"|'([^']*)'|([^)"']+))\s*\)/gi))
+        const blocked = urls
+          .map((m) => (m[1] ?? m[2] ?? m[3] ?? '').trim())
+          .filter((url) => !isAllowedUrl(url, policy.fonts))
+        blocked.forEach((url) => report({ kind: 'font', url }))
+        return blocked.length === 0
+      })
+      hasSource = sources.length > 0
+      return `${lead}src:${sources.join(',')}`
+    },
+  )
+  return hasSource ? filtered : null
+}
+
+/**
+ * Remove every script, stylesheet and font a resource policy does not allow from
+ * parsed content, before it is inserted.
+ *
+ * @param content - The parsed content
+ * @param policy - The resource policy
+ * @param report - Called for every removed resource
+ * @param scriptBaseUrl - URL relative script sources resolve against
+ * @param stylesheetBaseUrl - URL relative link and `@import` URLs resolve against
+ *   (default: `scriptBaseUrl`)
+ *
+ * @example
+ * ```ts
+ * const blocked: IBlockedResource[] = [];
+ * applyResourcePolicy(doc, { scripts: ["'self'"] }, (r) => blocked.push(r), document.baseURI);
+ * ```
+ */
+export function applyResourcePolicy(
+  content: ParentNode,
+  policy: IResourcePolicy,
+  report: (resource: IBlockedResource) => void,
+  scriptBaseUrl: string,
+  stylesheetBaseUrl = scriptBaseUrl,
+): void {
+  for (const script of Array.from(content.querySelectorAll('script[src]'))) {
+    const url = resolveUrl(script.getAttribute('src')?.trim() || '', scriptBaseUrl)
+    if (!isAllowedUrl(url, policy.scripts)) {
+      report({ kind: 'script', url })
+      script.remove()
+    }
+  }
+
+  for (const link of Array.from(content.querySelectorAll('link[href]'))) {
+    const kind = getLinkKind(link)
+    if (!kind) {
+      continue
+    }
+    const base = kind === 'script' ? scriptBaseUrl : stylesheetBaseUrl
+    const url = resolveUrl(link.getAttribute('href')?.trim() || '', base)
+    if (!isAllowedUrl(url, getOrigins(policy, kind))) {
+      report({ kind, url })
+      link.remove()
+    }
+  }
+
+  if (policy.stylesheets) {
+    for (const style of Array.from(content.querySelectorAll('style'))) {
+      const css = style.textContent || ''
+      const stripped = stripBlockedImports(css, policy, stylesheetBaseUrl, report)
+      if (stripped !== css) {
+        style.textContent = stripped
+      }
+    }
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * HTML Sanitizer Implementation
+ *
+ * This module cleans parsed HTML before the renderers extract its scripts, so
+ * untrusted content can be rendered without putting a separate sanitizer in front of
+ * the renderer (which would lose the document structure and every script).
+ *
+ * What Is Removed:
+ * - Elements outside the element allowlist: dangerous ones (`iframe`, `object`,
+ *   `embed`, `base`, `svg`, ...) with their content, others unwrapped so their text stays
+ * - Attributes outside the attribute allowlist, and every `on*` event handler
+ * - URLs with a scheme outside the allowed ones (e.g. `javascript:`), in `href`, `src`,
+ *   `srcset`, `action` and the other URL attributes
+ * - Scripts, unless the configuration allows them (all, or only trusted ones)
+ * - Dangerous constructs in `<style>` contents and `style` attributes
+ *   (`expression()`, `javascript:` URLs, `behavior`, `-moz-binding`)
+ *
+ * Presets:
+ * - "no-scripts": general-purpose HTML without scripts
+ * - "trusted-scripts": like "no-scripts", but keeps scripts the configuration trusts
+ *   (by default external scripts from the page's own origin)
+ * - "email": the conservative subset of HTML that email clients render
+ *
+ * @module sanitizer
+ */
+
+import { replaceImportRules, resolveUrl } from '../styles/cssUtils'
+import type { ISanitizeOptions, SanitizePreset } from './types'
+
+/**
+ * Sanitizer configuration with every option resolved.
+ */
+export type SanitizeConfig = Required<Omit<ISanitizeOptions, 'preset'>>
+
+/**
+ * Elements removed together with their content when they are not allowed; other
+ * disallowed elements are unwrapped.
+ */
+const DROP_WITH_CONTENT = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'template',
+  'base',
+  'svg',
+  'math',
+  'noembed',
+  'noframes',
+  'xmp',
+  'plaintext',
+])
+
+/**
+ * Attributes holding a single URL.
+ */
+const URL_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'action',
+  'formaction',
+  'poster',
+  'cite',
+  'background',
+  'longdesc',
+  'ping',
+  'data',
+  'manifest',
+  'xlink:href',
+])
+
+/**
+ * Elements and attributes of text content, shared by every preset.
+ */
+const TEXT_ELEMENTS = `a abbr b bdi bdo blockquote br caption cite code col colgroup dd del dfn div
+  dl dt em h1 h2 h3 h4 h5 h6 hr i img ins kbd li mark ol p pre q s samp small span strong sub sup
+  table tbody td tfoot th thead tr u ul var wbr html head body title meta style`.split(/\s+/)
+
+const TEXT_ATTRIBUTES = `id class style title lang dir hidden role aria-* data-* href src srcset
+  sizes alt width height name charset content colspan rowspan scope headers span abbr align
+  valign bgcolor border cellpadding cellspacing color face size start reversed datetime cite
+  target rel media type loading decoding`.split(/\s+/)
+
+/**
+ * Additional elements and attributes of documents ("no-scripts", "trusted-scripts").
+ */
+const DOCUMENT_ELEMENTS = `address article aside audio button canvas data datalist details dialog
+  fieldset figcaption figure footer form header hgroup input label legend link main menu meter
+  nav noscript optgroup option output picture progress rp rt ruby search section select slot
+  source summary textarea time track video`.split(/\s+/)
+
+const DOCUMENT_ATTRIBUTES = `tabindex accesskey translate slot part open value label for form
+  placeholder disabled checked selected readonly required multiple min max step minlength
+  maxlength pattern autocomplete action method enctype novalidate list controls autoplay loop
+  muted playsinline poster preload kind srclang default crossorigin integrity referrerpolicy as
+  hreflang async defer nomodule nonce`.split(/\s+/)
+
+/**
+ * Trust external scripts served from the page's own origin, with `src` resolved against
+ * the URL the renderer loads it from.
+ */
+function isSameOriginScript(script: HTMLScriptElement, baseUrl: string): boolean {
+  const src = script.getAttribute('src')
+  try {
+    return !!src && new URL(resolveUrl(src.trim(), baseUrl)).origin === location.origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the configuration of a preset, e.g. as the base of a custom configuration.
+ *
+ * @param preset - The preset name
+ * @param baseUrl - URL script sources resolve against ("trusted-scripts"), the document's
+ *   base URL by default
+ * @returns A fresh copy of the preset's configuration
+ *
+ * @example
+ * ```ts
+ * const email = getSanitizePreset('email');
+ * await renderIntoShadowRoot(shadowRoot, html, {
+ *   sanitize: { ...email, allowedElements: [...email.allowedElements, 'video'] },
+ * });
+ * ```
+ */
+export function getSanitizePreset(
+  preset: SanitizePreset,
+  baseUrl: string = document.baseURI,
+): SanitizeConfig {
+  if (preset === 'email') {
+    return {
+      allowedElements: [...TEXT_ELEMENTS, 'center', 'font', 'strike'],
+      allowedAttributes: [...TEXT_ATTRIBUTES],
+      scripts: false,
+      styles: 'filter',
+      allowedUrlSchemes: ['http:', 'https:', 'mailto:', 'tel:', 'cid:'],
+    }
+  }
+  return {
+    allowedElements: [
+      ...TEXT_ELEMENTS,
+      ...DOCUMENT_ELEMENTS,
+      ...(preset === 'trusted-scripts' ? ['script'] : []),
+    ],
+    allowedAttributes: [...TEXT_ATTRIBUTES, ...DOCUMENT_ATTRIBUTES],
+    scripts: preset === 'trusted-scripts' ? (script) => isSameOriginScript(script, baseUrl) : false,
+    styles: 'filter',
+    allowedUrlSchemes: ['http:', 'https:', 'mailto:', 'tel:'],
+  }
+}
+
+/**
+ * Resolve the `sanitize` option of the renderers into a full configuration.
+ *
+ * @param option - A preset name, or options extending a preset ("no-scripts" by default)
+ * @param baseUrl - URL script sources resolve against, see `getSanitizePreset`
+ * @returns The resolved configuration
+ */
+export function resolveSanitizeConfig(
+  option: SanitizePreset | ISanitizeOptions,
+  baseUrl?: string,
+): SanitizeConfig {
+  if (typeof option === 'string') {
+    return getSanitizePreset(option, baseUrl)
+  }
+  const { preset = 'no-scripts', ...overrides } = option
+  const config = { ...getSanitizePreset(preset, baseUrl) }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      Object.assign(config, { [key]: value })
+    }
+  }
+  return config
+}
+
+/**
+ * Remove dangerous constructs from CSS: script URLs, `expression()` and bindings.
+ *
+ * @param css - Stylesheet or `style` attribute source
+ * @param removeImports - Whether to remove `@import` rules as well
+ * @returns The filtered CSS
+ */
+export function filterStyleContent(css: string, removeImports = false): string {
+  const filtered = css
+    .replace(/url\(\s*(["']?)\s*(?:javascript|vbscript)\s*:[^)]*\)/gi, 'url()')
+    .replace(/expression\s*\(/gi, 'invalid(')
+    .replace(/(?:-moz-binding|behavior)\s*:[^;}]*/gi, '')
+  return removeImports ? replaceImportRules(filtered, () => '') : filtered
+}
+
+/**
+ * Normalize a URL attribute value for scheme checks: browsers ignore whitespace and
+ * control characters inside the scheme.
+ */
+function normalizeUrlValue(value: string): string {
+  return Array.from(value)
+    .filter((ch) => ch > ' ' && ch !== '\u007f')
+    .join('')
+    .toLowerCase()
+}
+
+/**
+ * Check whether a URL attribute value uses an allowed scheme (relative URLs always do).
+ */
+function isSafeUrl(value: string, schemes: string[], allowDataImages: boolean): boolean {
+  const normalized = normalizeUrlValue(value)
+  const scheme = normalized.match(/^([a-z][a-z\d+.-]*):/)?.[1]
+  if (!scheme) {
+    return true
+  }
+  if (allowDataImages && scheme === 'data') {
+    return normalized.startsWith('data:image/')
+  }
+  return schemes.includes(`${scheme}:`)
+}
+
+/**
+ * Remove every `on*` event handler and every `javascript:` or `vbscript:` URL from
+ * parsed content, leaving everything else as it is.
+ *
+ * @param root - The parsed content
+ *
+ * @example
+ * ```ts
+ * neutralizeScriptAttributes(doc); // <a href="javascript:go()" onclick="go()"> becomes <a>
+ * ```
+ */
+export function neutralizeScriptAttributes(root: ParentNode): void {
+  for (const el of Array.from(root.querySelectorAll('*'))) {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase()
+      if (
+        name.startsWith('on') ||
+        (URL_ATTRIBUTES.has(name) &&
+          /^(?:javascript|vbscript):/.test(normalizeUrlValue(attr.value)))
+      ) {
+        el.removeAttribute(attr.name)
+      }
+    }
+  }
+}
+
+/**
+ * Check whether an attribute name matches the allowlist, including `data-*` patterns.
+ */
+function isAllowedAttribute(name: string, allowed: string[]): boolean {
+  return allowed.some((entry) =>
+    entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry,
+  )
+}
+
+/**
+ * Sanitize the attributes of a single element.
+ */
+function sanitizeAttributes(el: Element, config: SanitizeConfig): void {
+  const tag = el.localName
+  const allowDataImages = tag === 'img' || tag === 'source' || tag === 'picture'
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name.toLowerCase()
+    let keep = !name.startsWith('on') && isAllowedAttribute(name, config.allowedAttributes)
+    if (keep && URL_ATTRIBUTES.has(name)) {
+      keep = isSafeUrl(attr.value, config.allowedUrlSchemes, allowDataImages)
+    } else if (keep && name === 'srcset') {
+      keep = attr.value
+        .split(',')
+        .every((candidate) =>
+          isSafeUrl(candidate.trim().split(/\s+/)[0] ?? '', config.allowedUrlSchemes, true),
+        )
+    }
+    if (!keep) {
+      el.removeAttribute(attr.name)
+    } else if (name === 'style' && config.styles !== 'keep') {
+      if (config.styles === 'remove') {
+        el.removeAttribute(attr.name)
+      } else {
+        el.setAttribute(attr.name, filterStyleContent(attr.value))
+      }
+    }
+  }
+}
+
+/**
+ * Sanitize parsed HTML in place, before its scripts are extracted.
+ *
+ * @param root - The parsed content (a DOMParser document or a detached container)
+ * @param option - A preset name, or options extending a preset
+ * @param baseUrl - URL the renderer loads script sources from, e.g. `options.baseUrl`;
+ *   "trusted-scripts" checks the origin of `src` resolved against it
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * sanitizeContent(doc, 'email');
+ * sanitizeContent(doc, { preset: 'trusted-scripts', scripts: (s) => s.nonce === pageNonce });
+ * ```
+ */
+export function sanitizeContent(
+  root: Document | Element,
+  option: SanitizePreset | ISanitizeOptions,
+  baseUrl?: string,
+): void {
+  const config = resolveSanitizeConfig(option, baseUrl)
+  const allowed = new Set(config.allowedElements.map((tag) => tag.toLowerCase()))
+  if (config.styles === 'remove') {
+    allowed.delete('style')
+  }
+
+  // Document order: descendants of removed elements are skipped, those of unwrapped
+  // elements are still visited in their new place
+  for (const el of Array.from(root.querySelectorAll('*'))) {
+    if (!root.contains(el)) {
+      continue
+    }
+    const tag = el.localName
+    const isScript = tag === 'script'
+    const keepScript =
+      isScript &&
+      allowed.has('script') &&
+      (typeof config.scripts === 'function'
+        ? config.scripts(el as HTMLScriptElement)
+        : config.scripts)
+    if ((isScript && !keepScript) || (!isScript && !allowed.has(tag))) {
+      if (isScript || DROP_WITH_CONTENT.has(tag)) {
+        el.remove()
+      } else {
+        el.replaceWith(...Array.from(el.childNodes))
+      }
+      continue
+    }
+
+    sanitizeAttributes(el, config)
+    if (tag === 'style' && config.styles === 'filter') {
+      el.textContent = filterStyleContent(el.textContent || '', !allowed.has('link'))
+    }
+  }
+}
@@ -10,14 +10,574 @@
  */
 
 /**
- * Configuration options for the HTML renderer
+ * Configuration options for the HTML renderers.
+ *
+ * Accepted by both `renderIntoShadowRoot` and `renderDirectly`. Every option is
+ * optional; omitting the object keeps the default behavior.
  */
 export interface IHtmlRendererOptions {
   /**
    * The raw HTML string to be rendered.
    * Can be a complete HTML document or a fragment.
+   *
+   * Kept so existing option objects still type-check; the renderers ignore it.
+   *
+   * @deprecated Pass the HTML as the renderer's `html` argument instead.
+   */
+  html?: string
+
+  /**
+   * Script execution mode.
+   * - "all": scripts are extracted and executed with browser-like semantics
+   * - "none": scripts are removed from the rendered output and never executed
+   *
+   * @default "all"
+   */
+  scripts?: 'all' | 'none'
+
+  /**
+   * Whether @font-face rules, and the other document-scoped at-rules listed in
+   * `fontFaceOptions.atRules`, are extracted and injected into the main document.
+   * Only used by the Shadow DOM renderer; content rendered directly already
+   * lives in the main document, where these rules work natively.
+   *
+   * @default true
+   */
+  injectFontFaces?: boolean
+
+  /**
+   * Rename the font families declared by @font-face rules in the content's `<style>`
+   * elements to aliases unique to the render root, and rewrite the `font-family` and
+   * `font` declarations of its `<style>` elements and `style` attributes to match, so
+   * documents declaring the same family with different files no longer collide in the
+   * main document. Families declared in linked stylesheets keep their names, and linked
+   * stylesheets using a family declared in a `<style>` element no longer find it.
+   * Only used by the Shadow DOM renderers.
+   *
+   * @default false
+   */
+  scopeFontFamilies?: boolean
+
+  /**
+   * Base URL used to resolve relative script sources, stylesheet hrefs and
+   * font URLs. Overrides any `<base href>` in the HTML and `document.baseURI`.
+   */
+  baseUrl?: string
+
+  /**
+   * Options forwarded to the font-face extraction step.
+   */
+  fontFaceOptions?: IFontFaceExtractionOptions
+
+  /**
+   * Run scripts against a `document` scoped to the render root: query methods search
+   * the rendered tree, `body`/`head`/`documentElement` map to the rendered elements,
+   * and everything else falls through to the real document.
+   *
+   * Classic scripts are wrapped in a `with` block, so their top-level `let`/`const`/`class`
+   * declarations are block-scoped and later scripts cannot see them (they throw a
+   * `ReferenceError`); share state through `var`, functions or `window` instead.
+   * External scripts are fetched and run inline, so they must be served with CORS when
+   * cross-origin, and `import.meta.url` of external module scripts is the page's URL.
+   *
+   * @default false
+   */
+  scopedDocument?: boolean
+
+  /**
+   * Dispatch synthetic lifecycle events to the rendered scripts: the scoped document
+   * turns "interactive" before defer scripts run, `DOMContentLoaded` fires after them,
+   * and `load` fires (with readyState "complete") once async scripts, images and
+   * stylesheets inside the root have settled. The render resolves after `load`.
+   *
+   * The events only reach listeners added through the scoped `document`/`window`
+   * (including `window.onload`), never the host page, so scripts are wrapped as with
+   * `scopedDocument`.
+   *
+   * @default false
+   */
+  lifecycleEvents?: boolean
+
+  /**
+   * Record the side effects of rendered scripts and tear them down when the root is
+   * cleared (`clearShadowRoot`/`clearElement`/`dispose()`) or fully re-rendered:
+   * timeouts, intervals, animation frames, `window`/`document` event listeners, and
+   * properties the scripts add to `window`.
+   *
+   * Scripts are wrapped as with `scopedDocument`, so only timers and listeners
+   * registered through the scoped globals are seen. Morphing updates keep the side
+   * effects of earlier renders, whose scripts stay live.
+   *
+   * @default false
+   */
+  trackSideEffects?: boolean
+
+  /**
+   * How inline classic scripts are isolated from each other and from earlier renders.
+   * - "global": scripts run as written; their top-level `let`, `const` and `class`
+   *   declarations share the page's global lexical scope, so rendering them twice throws
+   * - "block": each script is wrapped in a block, so those declarations are local to the
+   *   script while `var` and function declarations stay global
+   * - "module": each script runs as a module: every declaration is local, the code is
+   *   strict and runs deferred
+   *
+   * Assignments to `window` keep working in every mode. External and module scripts
+   * are never changed.
+   *
+   * @default "global"
+   */
+  scriptIsolation?: ScriptIsolation
+
+  /**
+   * Origins rendered content may load scripts, stylesheets and fonts from. Disallowed
+   * `<script src>`, `<link>` and `@import` targets are stripped before the content is
+   * inserted, disallowed `url()` sources are removed from injected @font-face rules,
+   * and everything removed is reported in `IRenderResult.blockedResources`.
+   */
+  resourcePolicy?: IResourcePolicy
+
+  /**
+   * Sanitize the parsed HTML before scripts are extracted: a preset name, or options
+   * extending a preset. Elements and attributes outside the allowlists, `on*` handlers,
+   * `javascript:` URLs and dangerous CSS are removed, and scripts only survive when the
+   * configuration allows them. Unset, the HTML is rendered as is.
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions
+
+  /**
+   * Trusted Types policy for pages enforcing `require-trusted-types-for 'script'`: a
+   * policy object, or the name of a policy to create (once) with pass-through rules.
+   * Every HTML string, script text and script URL the renderer assigns goes through it.
+   */
+  trustedTypes?: ITrustedTypePolicy | string
+
+  /**
+   * CSP nonce applied to every recreated `<script>`, to preload hints, to the injected
+   * @font-face `<style>` and to the `<style>` elements of the rendered content.
+   */
+  nonce?: string
+
+  /**
+   * Consulted before each script runs, to decide at runtime whether and how it may run;
+   * may be async. Return `false` to skip the script, an `IScriptOverride` to replace its
+   * code, `src` or attributes, or `true`/nothing to run it as written. When the hook
+   * throws, the script is reported as failed and does not run.
+   *
+   * Scripts are grouped into sequential, async and defer scripts beforehand, so changing
+   * `async`/`defer` does not move a script to another group.
+   */
+  beforeScriptExecute?: (meta: IScriptMeta) => ScriptDecision | Promise<ScriptDecision>
+
+  /**
+   * Load every external script only once per page, keyed by its resolved `src` and
+   * `integrity`: a script an earlier render (or the page itself) already loaded is
+   * skipped, and one that is still loading is waited for instead of being run again.
+   * A script's `data-dedupe` attribute (`"false"` to opt out) overrides this option.
+   *
+   * Scoped scripts are deduplicated too, so they keep the scoped `document` of the
+   * render that loaded them.
+   *
+   * @default false
+   */
+  dedupeScripts?: boolean
+
+  /**
+   * Time limit in milliseconds for each external script to load (or, when the renderer
+   * fetches the source itself, to be fetched). A script that runs out of time is reported
+   * as "timed-out" and the scripts after it keep running; the element stays in place and
+   * may still run once it arrives.
+   */
+  scriptTimeout?: number
+
+  /**
+   * Time limit in milliseconds for all scripts of a render (of each chunk when
+   * streaming). Once it runs out, scripts still running are reported as "timed-out",
+   * scripts not inserted yet are skipped and no further lifecycle events fire.
+   */
+  totalScriptTimeout?: number
+
+  /**
+   * Retry external scripts that failed to load, with exponential backoff.
+   * Timed-out scripts are not retried.
+   */
+  scriptRetry?: IScriptRetryPolicy
+
+  /**
+   * Wait for the web fonts of the @font-face rules the render hoisted before it resolves,
+   * e.g. for screenshots or layout measurements: `true`, or options with a time limit
+   * and whether to hide the host meanwhile. Each face is reported in
+   * `IRenderResult.fonts`. Only used by the Shadow DOM renderers; needs `document.fonts`.
+   *
+   * @default false
    */
-  html: string
+  waitForFonts?: boolean | IFontWaitOptions
+
+  /**
+   * Signal used to cancel the render. When aborted, pending stylesheet fetches
+   * are cancelled and scripts that have not run yet are never inserted.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * How renders wait for their fonts, see `IHtmlRendererOptions.waitForFonts`.
+ */
+export interface IFontWaitOptions {
+  /**
+   * Time limit in milliseconds; faces still loading are reported as "timed-out" and
+   * keep loading in the background.
+   *
+   * @default 3000
+   */
+  timeout?: number
+
+  /**
+   * Keep the shadow host `visibility: hidden` until the fonts loaded, failed or timed
+   * out, so the content never shows fallback fonts. Not used when streaming.
+   *
+   * @default false
+   */
+  hideHost?: boolean
+}
+
+/**
+ * Isolation mode for inline classic scripts, see `IHtmlRendererOptions.scriptIsolation`.
+ */
+export type ScriptIsolation = 'global' | 'block' | 'module'
+
+/**
+ * Allowed origins per kind of resource, see `IHtmlRendererOptions.resourcePolicy`.
+ *
+ * Entries are origins (`"https://cdn.example.com"`), subdomain wildcards
+ * (`"https://*.example.com"`), schemes (`"data:"`), `"'self'"` for the page's own
+ * origin, or `"*"` for any URL. A kind without a list is not restricted; an empty
+ * list blocks every resource of that kind.
+ */
+export interface IResourcePolicy {
+  /**
+   * Origins of external scripts (`<script src>`, script and module preloads).
+   */
+  scripts?: string[]
+
+  /**
+   * Origins of stylesheets (`<link rel="stylesheet">`, style preloads) and of `@import`
+   * targets, both in rendered `<style>` elements and while collecting @font-face rules.
+   */
+  stylesheets?: string[]
+
+  /**
+   * Origins of `url()` sources in injected @font-face rules and of font preloads.
+   */
+  fonts?: string[]
+}
+
+/**
+ * A Trusted Types policy, see `IHtmlRendererOptions.trustedTypes`; policies created by
+ * `window.trustedTypes.createPolicy()` match it. A missing method leaves values as strings.
+ */
+export interface ITrustedTypePolicy {
+  /**
+   * Convert HTML for `innerHTML` and `DOMParser`.
+   */
+  createHTML?(input: string): unknown
+
+  /**
+   * Convert the text of a `<script>` element.
+   */
+  createScript?(input: string): unknown
+
+  /**
+   * Convert the `src` of a `<script>` element.
+   */
+  createScriptURL?(input: string): unknown
+}
+
+/**
+ * Built-in sanitizer configuration, see `IHtmlRendererOptions.sanitize`.
+ * - "no-scripts": general-purpose HTML, without scripts
+ * - "trusted-scripts": like "no-scripts", but keeps external scripts from the page's
+ *   own origin (or those the `scripts` option trusts)
+ * - "email": the conservative subset of HTML email clients render; no scripts, forms,
+ *   media or external stylesheets
+ */
+export type SanitizePreset = 'no-scripts' | 'trusted-scripts' | 'email'
+
+/**
+ * Options of the built-in sanitizer. Every option that is set replaces the value of
+ * the preset; `getSanitizePreset()` returns a preset's values for extending them.
+ */
+export interface ISanitizeOptions {
+  /**
+   * Preset the other options override.
+   *
+   * @default "no-scripts"
+   */
+  preset?: SanitizePreset
+
+  /**
+   * Tag names of the elements to keep. Other elements are unwrapped, keeping their
+   * content, except for dangerous ones (`iframe`, `object`, `embed`, `svg`, ...),
+   * which are removed with their content.
+   */
+  allowedElements?: string[]
+
+  /**
+   * Names of the attributes to keep on any element; a trailing `*` matches a prefix
+   * (`"data-*"`). `on*` event handlers are always removed.
+   */
+  allowedAttributes?: string[]
+
+  /**
+   * URL schemes allowed in `href`, `src`, `srcset` and other URL attributes, e.g.
+   * `"https:"`. Relative URLs are always allowed, `data:image/` URLs on images.
+   */
+  allowedUrlSchemes?: string[]
+
+  /**
+   * Whether scripts are kept (`"script"` must also be an allowed element), or a function
+   * deciding per script, e.g. by its `src` or `nonce`.
+   */
+  scripts?: boolean | ((script: HTMLScriptElement) => boolean)
+
+  /**
+   * Handling of `<style>` elements and `style` attributes.
+   * - "keep": kept as is
+   * - "filter": `expression()`, `javascript:` URLs, `behavior` and `-moz-binding` are
+   *   removed, and `@import` rules too when `<link>` is not an allowed element
+   * - "remove": removed
+   */
+  styles?: 'keep' | 'filter' | 'remove'
+}
+
+/**
+ * Kind of resource covered by an `IResourcePolicy`.
+ */
+export type ResourceKind = 'script' | 'stylesheet' | 'font'
+
+/**
+ * A resource removed from rendered content by the resource policy.
+ */
+export interface IBlockedResource {
+  /**
+   * Kind of the resource.
+   */
+  kind: ResourceKind
+
+  /**
+   * Absolute URL of the resource.
+   */
+  url: string
+}
+
+/**
+ * Changes `IHtmlRendererOptions.beforeScriptExecute` applies to a script before it runs.
+ */
+export interface IScriptOverride {
+  /**
+   * Source to run instead; an external script becomes an inline one.
+   */
+  code?: string
+
+  /**
+   * URL to load the script from instead.
+   */
+  src?: string
+
+  /**
+   * Attributes to set, or to remove when null.
+   */
+  attrs?: Record<string, string | null>
+}
+
+/**
+ * Decision of `IHtmlRendererOptions.beforeScriptExecute` about a script:
+ * run it as written (`true` or nothing), skip it (`false`) or run it changed.
+ */
+export type ScriptDecision = boolean | void | IScriptOverride
+
+/**
+ * Retry policy for external scripts, see `IHtmlRendererOptions.scriptRetry`.
+ */
+export interface IScriptRetryPolicy {
+  /**
+   * How many times a failed script is retried.
+   */
+  retries: number
+
+  /**
+   * Delay in milliseconds before the first retry.
+   * @default 250
+   */
+  delay?: number
+
+  /**
+   * Factor the delay grows by with every further retry.
+   * @default 2
+   */
+  backoff?: number
+
+  /**
+   * Upper bound of the delay in milliseconds.
+   * @default 5000
+   */
+  maxDelay?: number
+
+  /**
+   * Decide whether a failure is worth retrying. By default everything is retried
+   * except HTTP 4xx responses other than 408 and 429.
+   *
+   * @param error - The load error; HTTP errors carry a numeric `status`
+   * @param retry - Number of the retry about to happen, starting at 1
+   */
+  shouldRetry?: (error: unknown, retry: number) => boolean
+}
+
+/**
+ * Outcome of a single script.
+ * - "executed": the script ran (inline) or loaded (external)
+ * - "failed": the script threw or could not be loaded
+ * - "skipped": the script was never inserted (e.g. the render was aborted, or an
+ *   earlier render already loaded the deduplicated script)
+ * - "timed-out": the script did not finish within its time limit
+ */
+export type ScriptStatus = 'executed' | 'failed' | 'skipped' | 'timed-out'
+
+/**
+ * Per-script outcome reported in `IRenderResult`.
+ */
+export interface IScriptResult {
+  /**
+   * Metadata of the script this result belongs to.
+   */
+  meta: IScriptMeta
+
+  /**
+   * What happened to the script.
+   */
+  status: ScriptStatus
+
+  /**
+   * The thrown error or load failure, for failed scripts.
+   */
+  error?: unknown
+
+  /**
+   * Milliseconds from insertion until the script settled.
+   */
+  duration: number
+}
+
+/**
+ * A stylesheet that could not be fetched while collecting @font-face rules.
+ */
+export interface IFailedStylesheet {
+  /**
+   * Absolute URL of the stylesheet or @import target.
+   */
+  url: string
+
+  /**
+   * The network error, or an Error describing the HTTP status.
+   */
+  error: unknown
+}
+
+/**
+ * Loading outcome of a font face.
+ * - "loaded": the face is ready to use
+ * - "error": the face failed to load (e.g. every source failed)
+ * - "timed-out": the face was still loading when `IFontWaitOptions.timeout` ran out
+ */
+export type FontFaceStatus = 'loaded' | 'error' | 'timed-out'
+
+/**
+ * A font face a render waited for, see `IRenderResult.fonts`.
+ */
+export interface IFontFaceResult {
+  /**
+   * Family name, unquoted.
+   */
+  family: string
+
+  /**
+   * `font-style` descriptor of the face, e.g. "normal".
+   */
+  style: string
+
+  /**
+   * `font-weight` descriptor of the face, e.g. "400" or "100 900".
+   */
+  weight: string
+
+  /**
+   * Whether the face loaded.
+   */
+  status: FontFaceStatus
+}
+
+/**
+ * Structured result a render resolves with.
+ */
+export interface IRenderResult {
+  /**
+   * Outcome of every script, in document order.
+   */
+  scripts: IScriptResult[]
+
+  /**
+   * @font-face rules collected from the rendered HTML and injected into the main document.
+   */
+  fontFaceRules: string[]
+
+  /**
+   * Every at-rule collected from the rendered HTML and injected into the main document:
+   * the @font-face rules, and `@property`, `@counter-style` and other rules listed in
+   * `IFontFaceExtractionOptions.atRules`. Rules are kept inside their `@media`,
+   * `@supports` and `@layer` wrappers.
+   */
+  hoistedRules: string[]
+
+  /**
+   * Loading outcome of the font faces of `fontFaceRules`, when the render waited for
+   * them (`IHtmlRendererOptions.waitForFonts`); empty otherwise.
+   */
+  fonts: IFontFaceResult[]
+
+  /**
+   * Stylesheets that failed to fetch while collecting @font-face rules.
+   */
+  failedStylesheets: IFailedStylesheet[]
+
+  /**
+   * Resources removed by `IHtmlRendererOptions.resourcePolicy`.
+   */
+  blockedResources: IBlockedResource[]
+
+  /**
+   * Whether the render was aborted before completing.
+   */
+  aborted: boolean
+}
+
+/**
+ * Handle returned by the renderers.
+ *
+ * The handle is the render promise itself, so `await renderIntoShadowRoot(...)`
+ * keeps working, extended with cancellation controls. Starting a new render on
+ * the same root automatically aborts the previous one.
+ */
+export interface IRenderHandle extends Promise<IRenderResult> {
+  /**
+   * Abort the render if it is still running and clear the content it rendered.
+   * Content of a newer render on the same root is left untouched.
+   */
+  dispose(): void
+
+  /**
+   * Signal that is aborted when the render is disposed, superseded by a newer
+   * render on the same root, cleared, or aborted through `options.signal`.
+   */
+  readonly signal: AbortSignal
 }
 
 /**
@@ -86,4 +646,73 @@ export interface IFontFaceExtractionOptions {
    * @default true
    */
   preventDuplicates?: boolean
+
+  /**
+   * Document-scoped at-rules to hoist into the main document, since they have no effect
+   * inside shadow roots. Hoisted rules apply page-wide, so `@property`, `@counter-style`
+   * and `@font-palette-values` are only hoisted when listed here.
+   *
+   * @default ["font-face"]
+   */
+  atRules?: HoistedAtRule[]
+
+  /**
+   * `font-display` descriptor set on every injected @font-face rule, replacing the one
+   * of the rule, e.g. "block" to avoid fallback fonts or "swap" to show text early.
+   */
+  fontDisplay?: FontDisplay
+
+  /**
+   * CSP nonce of the style element created in the main document.
+   */
+  nonce?: string
+
+  /**
+   * Base URL used to resolve relative stylesheet hrefs, @import targets and url() entries.
+   * Overrides any `<base href>` in the parsed document.
+   */
+  baseUrl?: string
+
+  /**
+   * Signal used to cancel pending stylesheet fetches.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Called for every stylesheet or @import target that fails to fetch.
+   */
+  onStylesheetError?: (url: string, error: unknown) => void
+
+  /**
+   * Origins stylesheets, `@import` targets and font sources may be loaded from;
+   * only `stylesheets` and `fonts` apply here.
+   */
+  resourcePolicy?: IResourcePolicy
+
+  /**
+   * Called for every stylesheet, `@import` target or font source the resource policy
+   * blocked.
+   */
+  onBlockedResource?: (resource: IBlockedResource) => void
+
+  /**
+   * Function used to fetch stylesheets and @import targets, e.g. to add headers.
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>
 }
+
+/**
+ * At-rule hoisted from rendered CSS into the main document, see
+ * `IFontFaceExtractionOptions.atRules`.
+ */
+export type HoistedAtRule = 'font-face' | 'property' | 'counter-style' | 'font-palette-values'
+
+/**
+ * A source of HTML chunks for streaming renders.
+ * Binary chunks are decoded as UTF-8.
+ */
+export type HtmlStreamSource =
+  | ReadableStream<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>
@@ -78,6 +78,24 @@ export function normalizeAttr(val: string): string {
   return val.trim()
 }
 
+/**
+ * Create a placeholder comment node for a script.
+ *
+ * The placeholder marks the exact position where a script must be re-inserted
+ * and can later be located with `findPlaceholderNode`.
+ *
+ * @param id - The unique ID of the script
+ * @returns A comment node with the format `<!-- SCRIPT_PLACEHOLDER:id -->`
+ *
+ * @example
+ * ```ts
+ * oldScript.replaceWith(createPlaceholderNode(meta.id));
+ * ```
+ */
+export function createPlaceholderNode(id: string): Comment {
+  return document.createComment(`SCRIPT_PLACEHOLDER:${id}`)
+}
+
 /**
  * Find a placeholder comment node by ID.
  *
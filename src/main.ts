@@ -34,10 +34,16 @@
  */
 export {
   renderIntoShadowRoot,
+  updateShadowRoot,
   clearShadowRoot,
   extractAndInjectFontFaces,
 } from './renderers/shadowRenderer'
 
+/**
+ * Streaming renderer for progressively rendering chunked HTML into a shadow root.
+ */
+export { renderStreamIntoShadowRoot } from './renderers/streamRenderer'
+
 /**
  * Direct DOM renderer functions for rendering HTML with script execution
  * but without style isolation.
@@ -48,8 +54,25 @@ export {
   extractScriptsWithPlaceholders,
   createExecutableScript,
   insertScriptAtPlaceholder,
+  executeScripts,
+  readScriptMeta,
 } from './renderers/directRenderer'
 
+/**
+ * DOM morphing functions used for state-preserving re-renders.
+ */
+export { morphNode, morphChildren, trackRenderedTree } from './renderers/domMorph'
+
+/**
+ * Script scoping utilities for running rendered scripts against a scoped `document`
+ * and `window`.
+ */
+export { createScopedDocument } from './scripts/scopedDocument'
+export { createScopedWindow } from './scripts/scopedWindow'
+export { createSideEffectTracker, disposeSideEffects } from './scripts/sideEffectTracker'
+export { parseImportMap, resolveModuleSpecifier, rewriteModuleImports } from './scripts/importMap'
+export { clearScriptRegistry } from './scripts/scriptRegistry'
+
 // ============================================================================
 // UTILITY EXPORTS
 // ============================================================================
@@ -57,25 +80,60 @@ export {
 /**
  * Utility functions for HTML and attribute normalization.
  */
-export { uid, normalizeHtml, normalizeAttr, findPlaceholderNode } from './extras/utils'
+export {
+  uid,
+  normalizeHtml,
+  normalizeAttr,
+  createPlaceholderNode,
+  findPlaceholderNode,
+} from './extras/utils'
 
 /**
  * CSS utility functions for font-face handling.
  */
 export {
   stripComments,
+  extractAtRuleBlocks,
   extractFontFaceBlocks,
+  getInnermostRule,
+  getFontFaceFamily,
+  setFontFaceDescriptor,
   createImportRegex,
+  extractImportRules,
+  replaceImportRules,
+  getImportConditionPreludes,
   resolveUrl,
   rebaseUrls,
   getDocBaseUrl,
 } from './styles/cssUtils'
 
+/**
+ * CSS tokenizer and rule parser the CSS utilities are built on.
+ */
+export { tokenizeCss, parseCssRules, serializeTokens } from './styles/cssTokenizer'
+
+/**
+ * Origin allowlist for resources of rendered content.
+ */
+export { applyResourcePolicy, isAllowedUrl } from './extras/resourcePolicy'
+
+/**
+ * Built-in HTML sanitizer.
+ */
+export {
+  filterStyleContent,
+  getSanitizePreset,
+  resolveSanitizeConfig,
+  sanitizeContent,
+} from './extras/sanitizer'
+
 /**
  * Font-face collection and injection utilities.
  */
 export { collectFontFaceRulesFromDocument } from './styles/fontFaceCollector'
-export { injectFontFaces } from './styles/fontInjector'
+export { injectFontFaces, releaseFontFaces } from './styles/fontInjector'
+export { rewriteFontFamilies, scopeFontFamilies } from './styles/fontScoping'
+export { waitForFontFaces } from './styles/fontReadiness'
 
 // ============================================================================
 // TYPE EXPORTS
@@ -89,4 +147,35 @@ export { injectFontFaces } from './styles/fontInjector'
  * import type { IScriptMeta, IHtmlRendererOptions } from 'shadow-html-renderer';
  * ```
  */
-export type { IScriptMeta, IHtmlRendererOptions, IFontFaceExtractionOptions } from './extras/types'
+export type {
+  IScriptMeta,
+  IHtmlRendererOptions,
+  IFontFaceExtractionOptions,
+  IRenderHandle,
+  IRenderResult,
+  IScriptResult,
+  IFailedStylesheet,
+  IFontWaitOptions,
+  IFontFaceResult,
+  FontFaceStatus,
+  ScriptStatus,
+  ScriptIsolation,
+  IScriptRetryPolicy,
+  IScriptOverride,
+  IResourcePolicy,
+  IBlockedResource,
+  ResourceKind,
+  ISanitizeOptions,
+  SanitizePreset,
+  ITrustedTypePolicy,
+  HoistedAtRule,
+  ScriptDecision,
+  HtmlStreamSource,
+} from './extras/types'
+export type { SanitizeConfig } from './extras/sanitizer'
+export type { IScopedDocumentOptions } from './scripts/scopedDocument'
+export type { IScopedWindowOptions } from './scripts/scopedWindow'
+export type { ISideEffectTracker } from './scripts/sideEffectTracker'
+export type { IImportMap } from './scripts/importMap'
+export type { ICssImportRule } from './styles/cssUtils'
+export type { CssTokenType, ICssRule, ICssToken } from './styles/cssTokenizer'
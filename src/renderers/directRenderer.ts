@@ -20,8 +20,106 @@
  * @module directRenderer
  */
 
-import { findPlaceholderNode, normalizeAttr, normalizeHtml, uid } from '../extras/utils'
-import type { IScriptMeta } from '../extras/types'
+import { applyStyleNonce, toTrustedHTML, toTrustedScript, toTrustedScriptURL } from '../extras/csp'
+import { applyResourcePolicy, isAllowedUrl } from '../extras/resourcePolicy'
+import { sanitizeContent } from '../extras/sanitizer'
+import {
+  createPlaceholderNode,
+  findPlaceholderNode,
+  normalizeAttr,
+  normalizeHtml,
+  uid,
+} from '../extras/utils'
+import {
+  dispatchDOMContentLoaded,
+  dispatchLoad,
+  markInteractive,
+  waitForSubresources,
+  type IRenderLifecycle,
+} from '../scripts/renderLifecycle'
+import {
+  beginScriptScope,
+  getScriptScope,
+  isScopableScript,
+  releaseScriptScope,
+  wrapScriptCode,
+} from '../scripts/scriptScope'
+import {
+  getImportMap,
+  isImportMapScript,
+  parseImportMap,
+  registerImportMap,
+  rewriteModuleImports,
+} from '../scripts/importMap'
+import { canTrackModules, trackModuleCode, waitForModule } from '../scripts/moduleCompletion'
+import { approveScript } from '../scripts/scriptApproval'
+import { acquireScript, shouldDedupeScript } from '../scripts/scriptRegistry'
+import { disableScripting } from '../scripts/scriptlessMode'
+import { recordNewGlobals, snapshotGlobals } from '../scripts/sideEffectTracker'
+import { resolveUrl } from '../styles/cssUtils'
+import { releaseFontFaces } from '../styles/fontInjector'
+import { trackRenderedScript } from './domMorph'
+import {
+  createScriptRequestInit,
+  getScriptBaseUrl,
+  startPreloadScan,
+  takePreloadedResponse,
+} from './preloadScanner'
+import { abortRender, beginRender, createRenderHandle } from './renderController'
+import {
+  createTimeoutError,
+  isTimeoutError,
+  runWithRetry,
+  withTimeout,
+  type IScriptAttempt,
+} from './scriptRetry'
+import type {
+  IBlockedResource,
+  IHtmlRendererOptions,
+  IRenderHandle,
+  IRenderResult,
+  IScriptMeta,
+  IScriptResult,
+  ScriptStatus,
+} from '../extras/types'
+
+/**
+ * Read the metadata of a single <script> element without modifying the DOM.
+ *
+ * A fresh unique ID is assigned so the script can later be located through
+ * its placeholder comment.
+ *
+ * @param oldScript - The parsed script element
+ * @returns Script metadata object
+ */
+export function readScriptMeta(oldScript: HTMLScriptElement): IScriptMeta {
+  const id = uid() // unique id used to locate placeholder later within the host
+
+  // Copy raw attributes so we can faithfully recreate the element
+  const attrs: Record<string, string> = {}
+  for (const attr of Array.from(oldScript.attributes)) {
+    attrs[attr.name] = attr.value
+  }
+
+  // Determine grouping semantics
+  const isAsync = oldScript.hasAttribute('async')
+  const isDefer = oldScript.hasAttribute('defer')
+  const typeAttr = (attrs['type'] || '').trim().toLowerCase()
+  const isModule = typeAttr === 'module'
+
+  // Inline code is preserved; external scripts have code = null
+  const code = oldScript.src ? null : (oldScript.textContent ?? '')
+
+  return {
+    id,
+    attrs,
+    code,
+    hasSrc: !!oldScript.src,
+    isAsync,
+    isDefer,
+    isModule,
+  }
+}
 
 /**
  * Extract all <script> elements from a container and replace each with a
@@ -33,7 +131,12 @@ import type { IScriptMeta } from '../extras/types'
  * The placeholder comments allow us to re-insert scripts at their exact
  * original positions in the DOM tree.
  *
+ * When `options.scripts` is "none", scripts are dropped instead of replaced and an
+ * empty array is returned; `<noscript>` content is promoted, and event handlers and
+ * `javascript:` URLs are removed.
+ *
  * @param container - The container element containing the parsed HTML
+ * @param options - Renderer options
  * @returns Array of script metadata objects
  *
  * @example
@@ -43,46 +146,216 @@ import type { IScriptMeta } from '../extras/types'
  * const scripts = extractScriptsWithPlaceholders(temp);
  * ```
  */
-export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptMeta[] {
+export function extractScriptsWithPlaceholders(
+  container: HTMLElement,
+  options: IHtmlRendererOptions = {},
+): IScriptMeta[] {
   const metas: IScriptMeta[] = []
   // Query scripts in tree order so placeholders keep the original positions
   const scripts = Array.from(container.querySelectorAll('script'))
 
+  if (options.scripts === 'none') {
+    disableScripting(container, options)
+    return metas
+  }
+
   for (const oldScript of scripts) {
-    const id = uid() // unique id used to locate placeholder later within the host
+    const meta = readScriptMeta(oldScript)
 
-    // Copy raw attributes so we can faithfully recreate the element
-    const attrs: Record<string, string> = {}
-    for (const attr of Array.from(oldScript.attributes)) {
-      attrs[attr.name] = attr.value
-    }
+    // Replace the original <script> with a comment placeholder so that later
+    // we can swap it for a freshly-created <script> that the browser will execute.
+    oldScript.replaceWith(createPlaceholderNode(meta.id))
 
-    // Determine grouping semantics
-    const isAsync = oldScript.hasAttribute('async')
-    const isDefer = oldScript.hasAttribute('defer')
-    const typeAttr = (attrs['type'] || '').trim().toLowerCase()
-    const isModule = typeAttr === 'module'
+    metas.push(meta)
+  }
 
-    // Inline code is preserved; external scripts have code = null
-    const code = oldScript.src ? null : (oldScript.textContent ?? '')
+  return metas
+}
 
-    // Replace the original <script> with a comment placeholder so that later
-    // we can swap it for a freshly-created <script> that the browser will execute.
-    const placeholder = document.createComment(`SCRIPT_PLACEHOLDER:${id}`)
-    oldScript.replaceWith(placeholder)
-
-    metas.push({
-      id,
-      attrs,
-      code,
-      hasSrc: !!oldScript.src,
-      isAsync,
-      isDefer,
-      isModule,
+/**
+ * Resolve the `src` of an external script against `options.baseUrl`, if provided.
+ */
+function resolveScriptSrc(meta: IScriptMeta, options: IHtmlRendererOptions): string {
+  const src = normalizeAttr(meta.attrs['src'] ?? '')
+  return options.baseUrl ? resolveUrl(src, getScriptBaseUrl(options)) : src
+}
+
+/**
+ * Fetch the source of an external script so it can be run inline, taking the response
+ * the preload scanner fetched ahead of time when there is one.
+ */
+async function fetchScriptSource(
+  root: ParentNode,
+  url: string,
+  meta: IScriptMeta,
+  signal?: AbortSignal,
+): Promise<string> {
+  const res = await (takePreloadedResponse(root, url) ??
+    fetch(url, createScriptRequestInit(meta, signal)))
+  if (!res.ok) {
+    // The status lets the retry policy tell transient failures from permanent ones
+    throw Object.assign(new Error(`HTTP ${res.status} while fetching ${url}`), {
+      status: res.status,
     })
   }
+  return res.text()
+}
 
-  return metas
+/**
+ * Fetch the source of an external script once, within `options.scriptTimeout`.
+ */
+async function fetchScriptAttempt(
+  root: ParentNode,
+  url: string,
+  meta: IScriptMeta,
+  options: IHtmlRendererOptions,
+): Promise<IScriptAttempt<string>> {
+  const { signal, scriptTimeout } = options
+  try {
+    const value = await withTimeout(
+      fetchScriptSource(root, url, meta, signal),
+      scriptTimeout,
+      `Script ${url} did not load within ${scriptTimeout}ms`,
+      signal,
+    )
+    return signal?.aborted ? { status: 'skipped' } : { status: 'executed', value }
+  } catch (error) {
+    if (signal?.aborted) {
+      return { status: 'skipped' }
+    }
+    return { status: isTimeoutError(error) ? 'timed-out' : 'failed', error }
+  }
+}
+
+/**
+ * Wait until an inserted script element loaded or failed to load.
+ *
+ * @returns Promise that resolves with whether the script loaded
+ */
+function waitForScriptLoad(s: HTMLScriptElement): Promise<boolean> {
+  return new Promise((resolve) => {
+    const done = (loaded: boolean): void => {
+      s.removeEventListener('load', onLoad)
+      s.removeEventListener('error', onError)
+      resolve(loaded)
+    }
+    const onLoad = (): void => done(true)
+    const onError = (): void => done(false)
+    s.addEventListener('load', onLoad)
+    s.addEventListener('error', onError)
+  })
+}
+
+/**
+ * Insert an external script element in place of a node and wait until it loaded,
+ * failed, ran out of `options.scriptTimeout` or the render was aborted.
+ *
+ * A script that timed out stays in place and may still run once it arrives.
+ */
+function loadScriptElement(
+  s: HTMLScriptElement,
+  position: ChildNode,
+  meta: IScriptMeta,
+  options: IHtmlRendererOptions,
+): Promise<IScriptAttempt> {
+  const { signal, scriptTimeout } = options
+  return new Promise<IScriptAttempt>((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const done = (outcome: IScriptAttempt): void => {
+      clearTimeout(timer)
+      resolve(outcome)
+    }
+    // Wire both load and error so we always resolve and never leak a pending promise
+    signal?.addEventListener('abort', () => done({ status: 'skipped' }), { once: true })
+    s.addEventListener('load', () => done({ status: 'executed' }), { once: true })
+    s.addEventListener(
+      'error',
+      () =>
+        done({ status: 'failed', error: new Error(`Error loading script ${meta.attrs['src']}`) }),
+      { once: true },
+    )
+    if (scriptTimeout !== undefined) {
+      timer = setTimeout(
+        () =>
+          done({
+            status: 'timed-out',
+            error: createTimeoutError(
+              `Script ${meta.attrs['src']} did not load within ${scriptTimeout}ms`,
+            ),
+          }),
+        scriptTimeout,
+      )
+    }
+    position.replaceWith(s)
+  })
+}
+
+/**
+ * Turn a script into an inline script running the given source.
+ *
+ * @param meta - Script metadata object
+ * @param code - The script source (fetched beforehand for external scripts)
+ */
+function createInlineScriptMeta(meta: IScriptMeta, code: string): IScriptMeta {
+  const { src: _src, integrity: _integrity, ...attrs } = meta.attrs
+  return { ...meta, attrs, code, hasSrc: false }
+}
+
+/**
+ * Create a script element that stays inert once inserted, e.g. for import maps and
+ * skipped or deduplicated scripts.
+ *
+ * Import maps of rendered content are applied by the renderer itself; handing them to
+ * the browser could clash with the host page's import map. `src` and the script text
+ * still pass through the Trusted Types policy, since their sinks enforce it regardless.
+ */
+function createInertScript(meta: IScriptMeta, options: IHtmlRendererOptions): HTMLScriptElement {
+  // Script elements created by DOMParser are marked as already started and never run
+  const s = new DOMParser()
+    .parseFromString(toTrustedHTML('<script></script>', options), 'text/html')
+    .querySelector('script')!
+  for (const [k, v] of Object.entries(meta.attrs)) {
+    s.setAttribute(k, k === 'src' ? toTrustedScriptURL(v, options) : v)
+  }
+  s.textContent = toTrustedScript(meta.code ?? '', options)
+  return s
+}
+
+/**
+ * Put an inert script in place of a script's placeholder.
+ *
+ * @param meta - The script to create
+ * @param source - The script as written in the markup
+ */
+function placeInertScript(
+  root: ParentNode,
+  meta: IScriptMeta,
+  source: IScriptMeta,
+  options: IHtmlRendererOptions,
+): void {
+  const s = createInertScript(meta, options)
+  trackRenderedScript(s, source)
+  findPlaceholderNode(root, meta.id)?.replaceWith(s)
+}
+
+/**
+ * Apply `options.scriptIsolation` to an inline classic script, so running it again
+ * does not redeclare its top-level `let`, `const` and `class` bindings.
+ *
+ * @param meta - Script metadata object
+ * @param options - Renderer options
+ * @returns Metadata of the script to run; the input itself when nothing changes
+ */
+function isolateInlineScript(meta: IScriptMeta, options: IHtmlRendererOptions): IScriptMeta {
+  const isolation = options.scriptIsolation ?? 'global'
+  if (isolation === 'global' || meta.hasSrc || meta.isModule || !isScopableScript(meta)) {
+    return meta
+  }
+  if (isolation === 'module') {
+    return { ...meta, isModule: true }
+  }
+  // The line break keeps a trailing line comment from swallowing the closing brace
+  return { ...meta, code: `{\n${meta.code ?? ''}\n}` }
 }
 
 /**
@@ -92,9 +365,12 @@ export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptM
  * - Forwards non-special attributes exactly as provided
  * - Applies special flags (async/defer/type/src) explicitly for correct semantics
  * - Normalizes src attribute to handle quoting/escaping issues
+ * - Resolves src against `options.baseUrl` when provided
  * - Sets textContent for inline scripts
+ * - Applies `options.nonce`, and passes src and text through `options.trustedTypes`
  *
  * @param meta - Script metadata object
+ * @param options - Renderer options
  * @returns A fresh HTMLScriptElement ready to be inserted into the DOM
  *
  * @example
@@ -103,7 +379,10 @@ export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptM
  * document.body.appendChild(script);
  * ```
  */
-export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
+export function createExecutableScript(
+  meta: IScriptMeta,
+  options: IHtmlRendererOptions = {},
+): HTMLScriptElement {
   const s = document.createElement('script')
 
   // Forward non-special attributes exactly as provided
@@ -113,10 +392,16 @@ export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
     }
     s.setAttribute(k, v)
   }
+  if (options.nonce) {
+    s.nonce = options.nonce
+  }
 
   // Apply special flags explicitly so DOM properties/semantics are correct
   if (meta.isModule) {
     s.type = 'module'
+  } else if (meta.attrs['type']) {
+    // Keep non-JavaScript types so data blocks (JSON, templates) are not executed
+    s.type = meta.attrs['type']
   }
   if (meta.isAsync) {
     s.async = true
@@ -126,9 +411,9 @@ export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
   }
 
   if (meta.hasSrc && meta.attrs['src']) {
-    s.src = normalizeAttr(meta.attrs['src'])
+    s.src = toTrustedScriptURL(resolveScriptSrc(meta, options), options)
   } else if (meta.code != null) {
-    s.textContent = meta.code
+    s.textContent = toTrustedScript(meta.code, options)
   }
 
   return s
@@ -138,60 +423,398 @@ export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
  * Insert a freshly-created <script> at its placeholder location and wait for completion.
  *
  * For external scripts (with src):
- * - Resolves on load event
- * - Resolves on error event (logs error but doesn't throw)
+ * - Resolves as "executed" on load event
+ * - Resolves as "failed" on error event (never rejects), once `options.scriptRetry`
+ *   gave up retrying
+ * - Resolves as "timed-out" when the script did not load within `options.scriptTimeout`
  *
  * For inline scripts:
  * - Browser executes synchronously when inserted
+ * - Errors thrown during execution are captured from the window "error" event
  * - We resolve on next microtask to model completion without blocking
  *
+ * Inline module scripts run later and may use top-level `await`; where the browser runs
+ * modules, they are instrumented to report when they finished or which error they threw.
+ *
+ * With `options.scopedDocument`, `options.lifecycleEvents` or `options.trackSideEffects`,
+ * JavaScript is wrapped to run against the render's script scope; external sources are
+ * fetched first and run inline. Inline classic scripts are isolated first according to
+ * `options.scriptIsolation`.
+ *
+ * `options.beforeScriptExecute` is consulted first and may skip the script or change it;
+ * the result still reports the script as written. A `src` it sets must still be allowed
+ * by `options.resourcePolicy`; otherwise the script is removed, reported and skipped.
+ *
+ * With `options.dedupeScripts` (or a `data-dedupe` attribute), an external script an
+ * earlier render already loaded is skipped, after waiting for it if it is still loading.
+ *
+ * If `options.signal` is aborted, the script is not inserted and the promise
+ * resolves immediately as "skipped"; a script that is still loading stops being awaited.
+ *
  * @param root - The root element containing the placeholder
  * @param meta - Script metadata object
- * @returns Promise that resolves when script has finished executing or loading
+ * @param options - Renderer options
+ * @param report - Called with a script source `options.resourcePolicy` does not allow
+ * @returns Promise that resolves with the script's outcome once it has finished
+ *   executing or loading
  *
  * @example
  * ```ts
- * await insertScriptAtPlaceholder(document.body, scriptMeta);
+ * const result = await insertScriptAtPlaceholder(document.body, scriptMeta);
+ * if (result.status === 'failed') {
+ *   reportError(result.error);
+ * }
  * ```
  */
-export function insertScriptAtPlaceholder(root: ParentNode, meta: IScriptMeta): Promise<void> {
-  return new Promise<void>((resolve) => {
-    const placeholder = findPlaceholderNode(root, meta.id)
-    if (!placeholder) {
-      // Defensive: if placeholder is missing (e.g., removed by user), treat as no-op
-      resolve()
-      return
+export async function insertScriptAtPlaceholder(
+  root: ParentNode,
+  meta: IScriptMeta,
+  options: IHtmlRendererOptions = {},
+  report?: (resource: IBlockedResource) => void,
+): Promise<IScriptResult> {
+  const start = performance.now()
+  const settle = (status: ScriptStatus, error?: unknown): IScriptResult => ({
+    meta,
+    status,
+    ...(error !== undefined && { error }),
+    duration: performance.now() - start,
+  })
+
+  const { signal } = options
+  if (signal?.aborted) {
+    return settle('skipped')
+  }
+
+  // The application decides whether and how the script runs
+  let script: IScriptMeta | null = meta
+  if (options.beforeScriptExecute) {
+    try {
+      script = await approveScript(meta, options)
+    } catch (error) {
+      placeInertScript(root, meta, meta, options)
+      return settle('failed', error)
+    }
+    if (signal?.aborted) {
+      return settle('skipped')
     }
+  }
+  if (!script) {
+    placeInertScript(root, meta, meta, options)
+    return settle('skipped')
+  }
+
+  // The policy was applied to the parsed content, so only a source set by the
+  // application can break it
+  const policyOrigins = options.resourcePolicy?.scripts
+  if (script !== meta && script.hasSrc && script.attrs['src'] && policyOrigins) {
+    const url = resolveUrl(script.attrs['src'].trim(), getScriptBaseUrl(options))
+    if (!isAllowedUrl(url, policyOrigins)) {
+      report?.({ kind: 'script', url })
+      findPlaceholderNode(root, script.id)?.remove()
+      return settle('skipped')
+    }
+  }
 
-    const s = createExecutableScript(meta)
-
-    if (meta.hasSrc && meta.attrs['src']) {
-      // External: wire both load and error so we always resolve and never leak a pending promise
-      s.addEventListener('load', () => resolve(), { once: true })
-      s.addEventListener(
-        'error',
-        (e) => {
-          console.error(`Error loading script ${meta.attrs['src']}`, e)
-          resolve()
-        },
-        { once: true },
+  // Import maps are applied to the render root's module scripts instead of the page
+  if (isImportMapScript(script)) {
+    placeInertScript(root, script, meta, options)
+    if (script.hasSrc) {
+      return settle('failed', new Error('External import maps are not supported'))
+    }
+    try {
+      registerImportMap(root, parseImportMap(script.code ?? '', getScriptBaseUrl(options)))
+    } catch (error) {
+      return settle('failed', error)
+    }
+    return settle('executed')
+  }
+
+  // With deduplication, only the first render to reach an external script loads it
+  if (shouldDedupeScript(script, options)) {
+    const url = resolveUrl(resolveScriptSrc(script, options), document.baseURI)
+    const finish = await acquireScript(url, script.attrs['integrity'], signal)
+    if (signal?.aborted) {
+      finish?.(false)
+      return settle('skipped')
+    }
+    if (!finish) {
+      placeInertScript(root, script, meta, options)
+      return settle('skipped')
+    }
+    let inserted: HTMLScriptElement | undefined
+    const result = await runScriptAtPlaceholder(root, script, meta, options, settle, (s) => {
+      inserted = s
+    })
+    // An element still loading when the render was aborted may run later, so the
+    // claim is kept until it settles
+    finish(
+      result.status === 'skipped' && inserted
+        ? waitForScriptLoad(inserted)
+        : result.status === 'executed',
+    )
+    return result
+  }
+
+  return runScriptAtPlaceholder(root, script, meta, options, settle)
+}
+
+/**
+ * Run a script at its placeholder, see `insertScriptAtPlaceholder`.
+ *
+ * @param source - The script as written in the markup, before the application changed it
+ * @param settle - Builds the script's result from its outcome
+ * @param onInsert - Called with every script element inserted for it
+ */
+async function runScriptAtPlaceholder(
+  root: ParentNode,
+  meta: IScriptMeta,
+  source: IScriptMeta,
+  options: IHtmlRendererOptions,
+  settle: (status: ScriptStatus, error?: unknown) => IScriptResult,
+  onInsert?: (script: HTMLScriptElement) => void,
+): Promise<IScriptResult> {
+  const { signal } = options
+
+  // Scoped scripts run inline against the render's bindings, and module scripts have
+  // their imports resolved against the render's import map, so external sources are
+  // fetched first; a sourceURL comment keeps them identifiable in developer tools.
+  let runMeta = isolateInlineScript(meta, options)
+  const scope = isScopableScript(meta) ? getScriptScope(root, options) : undefined
+  const importMap = runMeta.isModule ? getImportMap(root) : undefined
+  const isExternal = !!(meta.hasSrc && meta.attrs['src'])
+  if (scope || importMap || (runMeta.isModule && !isExternal && options.baseUrl)) {
+    let code = runMeta.code ?? ''
+    let url: string | undefined
+    if (isExternal) {
+      const src = resolveScriptSrc(meta, options)
+      const fetched = await runWithRetry(
+        () => fetchScriptAttempt(root, src, meta, options),
+        options.scriptRetry,
+        signal,
       )
+      if (fetched.status !== 'executed' || fetched.value === undefined) {
+        return settle(fetched.status, fetched.error)
+      }
+      url = src
+      code = fetched.value
+    }
+    if (runMeta.isModule) {
+      code = rewriteModuleImports(code, importMap, url ?? getScriptBaseUrl(options))
+    }
+    if (url) {
+      code = `${code}\n//# sourceURL=${url}`
+    }
+    runMeta = createInlineScriptMeta(
+      runMeta,
+      scope ? wrapScriptCode(code, scope, runMeta.isModule) : code,
+    )
+  }
+
+  // Inline modules run later than their insertion and may await, so they report their
+  // own completion where the environment runs them
+  const trackModule = runMeta.isModule && !runMeta.hasSrc && canTrackModules()
+  if (trackModule) {
+    runMeta = { ...runMeta, code: trackModuleCode(runMeta.code ?? '', meta.id) }
+  }
+
+  const placeholder = findPlaceholderNode(root, meta.id)
+  if (!placeholder) {
+    // Defensive: if placeholder is missing (e.g., removed by user), treat as no-op
+    return settle('skipped')
+  }
+
+  if (runMeta.hasSrc && runMeta.attrs['src']) {
+    // External: every retry replaces the element of the failed attempt with a fresh one
+    let position: ChildNode = placeholder
+    const loaded = await runWithRetry(
+      () => {
+        const s = createExecutableScript(runMeta, options)
+        trackRenderedScript(s, source)
+        onInsert?.(s)
+        const attempt = loadScriptElement(s, position, meta, options)
+        position = s
+        return attempt
+      },
+      options.scriptRetry,
+      signal,
+    )
+    return settle(loaded.status, loaded.error)
+  }
+
+  return new Promise<IScriptResult>((resolve) => {
+    const s = createExecutableScript(runMeta, options)
+    trackRenderedScript(s, source)
+    onInsert?.(s)
+    scope?.scripts.add(s)
+    // Inline: replacing the node triggers synchronous execution in real browsers, so any
+    // error reported while inserting belongs to this script.
+    // Globals that appear meanwhile were declared by this script.
+    let error: unknown
+    const onError = (e: ErrorEvent): void => {
+      error = e.error ?? new Error(e.message)
+    }
+    const globalsBefore = scope?.tracker ? snapshotGlobals() : undefined
+    const moduleRun = trackModule ? waitForModule(meta.id, s, signal) : undefined
+    window.addEventListener('error', onError)
+    try {
       placeholder.replaceWith(s)
-    } else {
-      // Inline: replacing the node triggers synchronous execution in real browsers; we model
-      // completion at microtask boundary to preserve order while allowing the DOM to update.
-      placeholder.replaceWith(s)
-      queueMicrotask(() => resolve())
+    } finally {
+      window.removeEventListener('error', onError)
+      if (scope?.tracker && globalsBefore) {
+        recordNewGlobals(scope.tracker, globalsBefore)
+      }
+    }
+    if (moduleRun) {
+      signal?.addEventListener('abort', () => resolve(settle('skipped')), { once: true })
+      moduleRun.then(
+        () => resolve(settle('executed')),
+        (moduleError: unknown) => resolve(settle('failed', moduleError)),
+      )
+      return
     }
+    // We model completion at microtask boundary to preserve order while allowing the DOM to update.
+    queueMicrotask(() =>
+      resolve(error === undefined ? settle('executed') : settle('failed', error)),
+    )
   })
 }
 
+/**
+ * Execute extracted scripts at their placeholders with browser-like ordering.
+ *
+ * - Sequential scripts: Execute in order, each waits for previous
+ * - Async scripts: Execute independently without blocking
+ * - Defer scripts: Execute after DOM flush (microtask), in order; module scripts
+ *   without `async` are deferred like in the browser
+ *
+ * Shared by both renderers so script semantics stay identical.
+ * Stops inserting scripts as soon as `options.signal` is aborted, or once
+ * `options.totalScriptTimeout` ran out; scripts still running then are reported as
+ * "timed-out". A script that timed out on its own does not stop the scripts after it.
+ *
+ * With a render lifecycle, the rendered document becomes "interactive" before defer
+ * scripts run, `DOMContentLoaded` fires after them, and `load` fires once async
+ * scripts, images and stylesheets inside the root have settled.
+ *
+ * @param root - The root containing the script placeholders
+ * @param scriptMetas - Script metadata returned by `extractScriptsWithPlaceholders`
+ * @param options - Renderer options
+ * @param lifecycle - Lifecycle of the render, to dispatch its lifecycle events
+ * @param report - Called with script sources `options.resourcePolicy` does not allow
+ * @returns Promise that resolves with every script's outcome, in document order, once
+ *   all scripts have settled; scripts never inserted are reported as "skipped"
+ */
+export async function executeScripts(
+  root: ParentNode,
+  scriptMetas: IScriptMeta[],
+  options: IHtmlRendererOptions = {},
+  lifecycle?: IRenderLifecycle,
+  report?: (resource: IBlockedResource) => void,
+): Promise<IScriptResult[]> {
+  // The overall time limit aborts the remaining scripts through a signal of their own;
+  // scripts still running at that moment are reported as "timed-out"
+  const { totalScriptTimeout } = options
+  const controller = totalScriptTimeout === undefined ? undefined : new AbortController()
+  const signal = controller?.signal ?? options.signal
+  const runOptions = controller ? { ...options, signal } : options
+  const running = new Set<string>()
+  let timeoutError: DOMException | undefined
+  let timedOut = new Set<string>()
+  const forwardAbort = (): void => controller?.abort(options.signal?.reason)
+  let timer: ReturnType<typeof setTimeout> | undefined
+  if (controller) {
+    if (options.signal?.aborted) {
+      forwardAbort()
+    }
+    options.signal?.addEventListener('abort', forwardAbort, { once: true })
+    timer = setTimeout(() => {
+      timeoutError = createTimeoutError(`Scripts did not finish within ${totalScriptTimeout}ms`)
+      timedOut = new Set(running)
+      controller.abort(timeoutError)
+    }, totalScriptTimeout)
+  }
+
+  const results = new Map<string, IScriptResult>()
+  const run = async (m: IScriptMeta): Promise<void> => {
+    running.add(m.id)
+    const result = await insertScriptAtPlaceholder(root, m, runOptions, report)
+    running.delete(m.id)
+    results.set(
+      m.id,
+      result.status === 'skipped' && timedOut.has(m.id)
+        ? { ...result, status: 'timed-out', error: timeoutError }
+        : result,
+    )
+  }
+
+  // Group scripts for the correct execution order
+  const sequential: IScriptMeta[] = []
+  const asyncScripts: IScriptMeta[] = []
+  const deferScripts: IScriptMeta[] = []
+
+  for (const m of scriptMetas) {
+    if (m.isAsync) {
+      asyncScripts.push(m)
+    } else if (m.isDefer || m.isModule) {
+      deferScripts.push(m)
+    } else {
+      sequential.push(m)
+    }
+  }
+
+  try {
+    // 1) Run sequential scripts in-order; each waits for previous to finish
+    for (const m of sequential) {
+      if (signal?.aborted) {
+        break
+      }
+      await run(m)
+    }
+
+    // 2) Fire async scripts without blocking the defer scripts
+    const asyncRuns = asyncScripts.map(run)
+
+    // 3) After DOM flush (microtask), run defer scripts in-order
+    await Promise.resolve()
+    if (lifecycle && !signal?.aborted) {
+      markInteractive(lifecycle)
+    }
+    for (const m of deferScripts) {
+      if (signal?.aborted) {
+        break
+      }
+      await run(m)
+    }
+    if (lifecycle && !signal?.aborted) {
+      dispatchDOMContentLoaded(lifecycle)
+    }
+
+    // Async outcomes are needed for the report and before the load event
+    await Promise.all(asyncRuns)
+
+    if (lifecycle && !signal?.aborted) {
+      await waitForSubresources(root, signal)
+      if (!signal?.aborted) {
+        dispatchLoad(lifecycle)
+      }
+    }
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', forwardAbort)
+  }
+
+  return scriptMetas.map(
+    (meta) => results.get(meta.id) ?? { meta, status: 'skipped' as const, duration: 0 },
+  )
+}
+
 /**
  * Render HTML content directly into a target element with full script execution.
  *
  * This function:
  * 1. Clears the target element
- * 2. Parses HTML and extracts scripts (replacing with placeholders)
+ * 2. Parses HTML, strips resources `options.resourcePolicy` does not allow and extracts
+ *    scripts (replacing with placeholders)
  * 3. Appends all content (including placeholders) to the target
  * 4. Executes scripts in proper order:
  *    - Sequential scripts: Execute in order, each waits for previous
@@ -202,61 +825,106 @@ export function insertScriptAtPlaceholder(root: ParentNode, meta: IScriptMeta):
  *
  * @param target - The target element to render into
  * @param html - The HTML string to render
- * @returns Promise that resolves when all sequential and defer scripts have completed
+ * @param options - Renderer options (script mode, base URL, abort signal, ...)
+ * @returns Render handle; a promise that resolves with an `IRenderResult` once all
+ *   scripts have settled (or the render was aborted), with `dispose()` and `signal`
  *
  * @example
  * ```ts
  * const container = document.getElementById('content');
  * await renderDirectly(container, htmlString);
+ * await renderDirectly(container, htmlString, { scripts: 'none' });
+ *
+ * const handle = renderDirectly(container, htmlString);
+ * handle.dispose(); // abort pending scripts and clear the container
  * ```
  */
-export async function renderDirectly(target: HTMLElement, html: string): Promise<void> {
+export function renderDirectly(
+  target: HTMLElement,
+  html: string,
+  options: IHtmlRendererOptions = {},
+): IRenderHandle {
+  const controller = beginRender(target, options.signal)
+  const promise = performDirectRender(target, html, { ...options, signal: controller.signal })
+  return createRenderHandle(target, controller, promise, () => clearElement(target))
+}
+
+/**
+ * Perform a direct render; `options.signal` is the render's own signal.
+ */
+async function performDirectRender(
+  target: HTMLElement,
+  html: string,
+  options: IHtmlRendererOptions,
+): Promise<IRenderResult> {
   // Clear existing content
   while (target.firstChild) {
     target.removeChild(target.firstChild)
   }
 
+  const source = toTrustedHTML(normalizeHtml(html), options)
   const temp = document.createElement('div')
-  temp.innerHTML = normalizeHtml(html)
-
-  const scriptMetas = extractScriptsWithPlaceholders(temp)
+  if (options.sanitize) {
+    // Parsed into an inert document, so no handler fires before sanitizing removes it
+    const doc = new DOMParser().parseFromString(source, 'text/html')
+    if (options.scripts === 'none') {
+      disableScripting(doc.documentElement, options)
+    }
+    sanitizeContent(doc, options.sanitize, getScriptBaseUrl(options))
+    for (const node of [...Array.from(doc.head.childNodes), ...Array.from(doc.body.childNodes)]) {
+      temp.appendChild(document.importNode(node, true))
+    }
+  } else {
+    temp.innerHTML = source
+  }
+  // <noscript> content parsed as text is promoted first, so the steps below see it
+  if (options.scripts === 'none' && !options.sanitize) {
+    disableScripting(temp, options)
+  }
+  applyStyleNonce(temp, options)
 
-  // Append all nodes (including placeholders) at once to reduce layout thrashing
-  const frag = document.createDocumentFragment()
-  while (temp.firstChild) {
-    frag.appendChild(temp.firstChild)
+  const blockedResources: IBlockedResource[] = []
+  if (options.resourcePolicy) {
+    applyResourcePolicy(
+      temp,
+      options.resourcePolicy,
+      (resource) => blockedResources.push(resource),
+      getScriptBaseUrl(options),
+    )
   }
-  target.appendChild(frag)
 
-  // Group scripts for the correct execution order
-  const sequential: IScriptMeta[] = []
-  const asyncScripts: IScriptMeta[] = []
-  const deferScripts: IScriptMeta[] = []
+  const scriptMetas = extractScriptsWithPlaceholders(temp, options)
 
-  for (const m of scriptMetas) {
-    if (m.isAsync) {
-      asyncScripts.push(m)
-    } else if (m.isDefer) {
-      deferScripts.push(m)
-    } else {
-      sequential.push(m)
+  // Scripts still run one after another, but their requests start right away
+  const stopPreload = startPreloadScan(target, temp, scriptMetas, options)
+  try {
+    // Append all nodes (including placeholders) at once to reduce layout thrashing
+    const frag = document.createDocumentFragment()
+    while (temp.firstChild) {
+      frag.appendChild(temp.firstChild)
     }
-  }
+    target.appendChild(frag)
 
-  // 1) Run sequential scripts in-order; each waits for previous to finish
-  for (const m of sequential) {
-    await insertScriptAtPlaceholder(target, m)
-  }
+    const scope = beginScriptScope(target, options)
+    const scripts = await executeScripts(
+      target,
+      scriptMetas,
+      options,
+      scope?.lifecycle,
+      (resource) => blockedResources.push(resource),
+    )
 
-  // 2) Fire async scripts without awaiting their completion
-  for (const m of asyncScripts) {
-    void insertScriptAtPlaceholder(target, m)
-  }
-
-  // 3) After DOM flush (microtask), run defer scripts in-order
-  await Promise.resolve()
-  for (const m of deferScripts) {
-    await insertScriptAtPlaceholder(target, m)
+    return {
+      scripts,
+      fontFaceRules: [],
+      hoistedRules: [],
+      fonts: [],
+      failedStylesheets: [],
+      blockedResources,
+      aborted: !!options.signal?.aborted,
+    }
+  } finally {
+    stopPreload()
   }
 }
 
@@ -264,7 +932,8 @@ export async function renderDirectly(target: HTMLElement, html: string): Promise
  * Clear all children from a target element.
  *
  * This is a utility function for cleanup operations. It uses a while loop
- * with removeChild for deterministic cleanup.
+ * with removeChild for deterministic cleanup. Any in-flight render into the
+ * element is aborted first, and font-face rules registered for it are released.
  *
  * @param target - The element to clear
  *
@@ -274,6 +943,9 @@ export async function renderDirectly(target: HTMLElement, html: string): Promise
  * ```
  */
 export function clearElement(target: HTMLElement): void {
+  abortRender(target)
+  releaseScriptScope(target)
+  releaseFontFaces(target)
   while (target.firstChild) {
     target.removeChild(target.firstChild)
   }
@@ -0,0 +1,307 @@
+/**
+ * DOM Morphing Implementation
+ *
+ * This module patches an existing DOM tree so that it matches a newly parsed tree,
+ * touching only the nodes that actually changed. Unchanged nodes keep their identity,
+ * so focus, scroll position, form input values and script-created state survive
+ * a re-render.
+ *
+ * Matching Rules:
+ * - Keyed elements (`id` or `data-key`) are matched by key anywhere among their siblings
+ * - Unkeyed nodes are matched positionally by node type and tag name
+ * - Unkeyed nodes further ahead are only reused when they are exactly equal
+ * - <script> elements are matched by the attributes and code they were rendered from,
+ *   never by position, and are never patched (patching cannot re-run them)
+ * - Elements created by scripts (not by rendered markup) are left untouched
+ *
+ * @module domMorph
+ */
+
+import type { IScriptMeta } from '../extras/types'
+
+/**
+ * Elements that were inserted from rendered markup.
+ * Elements missing from this set were created by scripts and are preserved.
+ */
+const renderedElements = new WeakSet<Node>()
+
+/**
+ * Mark a rendered subtree so later morphs know its elements came from markup.
+ *
+ * @param root - The root of the subtree inserted from rendered markup
+ *
+ * @example
+ * ```ts
+ * shadowRoot.appendChild(importedNode);
+ * trackRenderedTree(importedNode);
+ * ```
+ */
+export function trackRenderedTree(root: Node): void {
+  renderedElements.add(root)
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, null)
+  let node: Node | null
+  while ((node = walker.nextNode())) {
+    renderedElements.add(node)
+    if ((node as Element).tagName === 'TEMPLATE') {
+      trackRenderedTree((node as HTMLTemplateElement).content)
+    }
+  }
+}
+
+/**
+ * Signatures of live scripts, taken from the markup they were rendered from: the
+ * running element may carry wrapped code or attributes added for execution.
+ */
+const scriptSignatures = new WeakMap<Node, string>()
+
+/**
+ * Build a stable signature for a script from its attributes and inline code.
+ *
+ * @param meta - Script metadata object
+ * @returns The signature
+ */
+export function getScriptSignature(meta: Pick<IScriptMeta, 'attrs' | 'code'>): string {
+  const attrs = Object.entries(meta.attrs).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return JSON.stringify([attrs, meta.code])
+}
+
+/**
+ * Remember the markup a script element placed into a rendered tree came from, so
+ * later morphs match it against the same script.
+ *
+ * @param script - The script element placed into the rendered tree
+ * @param meta - Metadata of the script as written in the markup
+ *
+ * @example
+ * ```ts
+ * placeholder.replaceWith(script);
+ * trackRenderedScript(script, meta);
+ * ```
+ */
+export function trackRenderedScript(script: Node, meta: IScriptMeta): void {
+  scriptSignatures.set(script, getScriptSignature(meta))
+}
+
+/**
+ * Get the signature of a script element, as recorded or read from its markup.
+ */
+function readScriptSignature(script: Element): string {
+  const recorded = scriptSignatures.get(script)
+  if (recorded !== undefined) {
+    return recorded
+  }
+  const attrs: Record<string, string> = {}
+  for (const attr of Array.from(script.attributes)) {
+    attrs[attr.name] = attr.value
+  }
+  const code = (script as HTMLScriptElement).src ? null : (script.textContent ?? '')
+  return getScriptSignature({ attrs, code })
+}
+
+/**
+ * Check whether the morph may patch, move or remove an existing node.
+ * Text and comment nodes are always managed; elements only when rendered from markup.
+ */
+function isManaged(node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return true
+  }
+  return (node as Element).tagName === 'SCRIPT' || renderedElements.has(node)
+}
+
+/**
+ * Get the first managed node starting at (and including) `node`.
+ */
+function nextManaged(node: Node | null): Node | null {
+  while (node && !isManaged(node)) {
+    node = node.nextSibling
+  }
+  return node
+}
+
+/**
+ * Get the matching key of a node.
+ *
+ * @param node - The node to inspect
+ * @returns The element's `id` or `data-key`, or null for unkeyed nodes
+ */
+function getNodeKey(node: Node): string | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null
+  }
+  const el = node as Element
+  return el.getAttribute('id') || el.getAttribute('data-key') || null
+}
+
+/**
+ * Check whether two nodes can be morphed into each other.
+ */
+function isSameKind(a: Node, b: Node): boolean {
+  if (a.nodeType !== b.nodeType) {
+    return false
+  }
+  if (a.nodeType !== Node.ELEMENT_NODE) {
+    return true
+  }
+  const elA = a as Element
+  const elB = b as Element
+  return elA.tagName === elB.tagName && elA.namespaceURI === elB.namespaceURI
+}
+
+/**
+ * Copy attribute changes from one element to another.
+ *
+ * Only attributes are synchronized. Live properties such as an input's current
+ * `value` or `checked` state are left alone, so user input is preserved.
+ */
+function syncAttributes(from: Element, to: Element): void {
+  for (const attr of Array.from(from.attributes)) {
+    if (!to.hasAttributeNS(attr.namespaceURI, attr.localName)) {
+      from.removeAttributeNS(attr.namespaceURI, attr.localName)
+    }
+  }
+  for (const attr of Array.from(to.attributes)) {
+    if (from.getAttributeNS(attr.namespaceURI, attr.localName) !== attr.value) {
+      from.setAttributeNS(attr.namespaceURI, attr.name, attr.value)
+    }
+  }
+}
+
+/**
+ * Find the existing child that should be morphed into `toChild`.
+ *
+ * @param toChild - The node from the new tree
+ * @param cursor - The next unplaced node of the existing tree
+ * @param keyed - Unmatched keyed children of the existing parent
+ * @returns The matching existing node, or null if a new node must be inserted
+ */
+function findMatch(toChild: Node, cursor: Node | null, keyed: Map<string, Node>): Node | null {
+  const key = getNodeKey(toChild)
+  if (key) {
+    const candidate = keyed.get(key)
+    if (candidate && isSameKind(candidate, toChild)) {
+      keyed.delete(key)
+      return candidate
+    }
+    return null
+  }
+
+  // Scripts cannot be patched, so only the same script may stand in for another
+  if ((toChild as Element).tagName === 'SCRIPT') {
+    const signature = readScriptSignature(toChild as Element)
+    for (let node = cursor; node; node = node.nextSibling) {
+      if (
+        !getNodeKey(node) &&
+        isSameKind(node, toChild) &&
+        readScriptSignature(node as Element) === signature
+      ) {
+        return node
+      }
+    }
+    return null
+  }
+
+  if (cursor && !getNodeKey(cursor) && isSameKind(cursor, toChild)) {
+    return cursor
+  }
+
+  // Look ahead for an identical unkeyed node (e.g. after a sibling was removed)
+  for (let node = cursor?.nextSibling ?? null; node; node = node.nextSibling) {
+    if (isManaged(node) && !getNodeKey(node) && node.isEqualNode(toChild)) {
+      return node
+    }
+  }
+
+  return null
+}
+
+/**
+ * Morph an existing node into a new one of the same kind.
+ *
+ * Text and comment nodes get their value updated; elements get their attributes
+ * synchronized and their children morphed recursively.
+ *
+ * @param from - The existing (live) node, updated in place
+ * @param to - The node from the newly parsed tree
+ *
+ * @example
+ * ```ts
+ * morphNode(shadowRoot.firstElementChild!, doc.documentElement);
+ * ```
+ */
+export function morphNode(from: Node, to: Node): void {
+  if (from.nodeType !== Node.ELEMENT_NODE) {
+    if (from.nodeValue !== to.nodeValue) {
+      from.nodeValue = to.nodeValue
+    }
+    return
+  }
+
+  const fromEl = from as Element
+  if (fromEl.tagName === 'SCRIPT') {
+    return
+  }
+
+  syncAttributes(fromEl, to as Element)
+
+  if (fromEl.tagName === 'TEMPLATE') {
+    morphChildren((from as HTMLTemplateElement).content, (to as HTMLTemplateElement).content)
+    return
+  }
+
+  morphChildren(from, to)
+}
+
+/**
+ * Morph the children of an existing parent so they match the children of a new parent.
+ *
+ * Matched children are morphed in place, new children are imported into the
+ * main document and inserted, and unmatched existing children are removed.
+ * Elements created by scripts are skipped entirely.
+ *
+ * @param fromParent - The existing (live) parent, updated in place
+ * @param toParent - The parent from the newly parsed tree
+ */
+export function morphChildren(fromParent: Node, toParent: Node): void {
+  const keyed = new Map<string, Node>()
+  for (let child = fromParent.firstChild; child; child = child.nextSibling) {
+    const key = getNodeKey(child)
+    if (key && !keyed.has(key) && isManaged(child)) {
+      keyed.set(key, child)
+    }
+  }
+
+  const placed = new Set<Node>()
+  let cursor = nextManaged(fromParent.firstChild)
+
+  for (const toChild of Array.from(toParent.childNodes)) {
+    const match = findMatch(toChild, cursor, keyed)
+
+    if (!match) {
+      const imported = document.importNode(toChild, true)
+      fromParent.insertBefore(imported, cursor)
+      trackRenderedTree(imported)
+      placed.add(imported)
+      continue
+    }
+
+    if (match === cursor) {
+      cursor = nextManaged(match.nextSibling)
+    } else if (cursor && cursor.compareDocumentPosition(match) & Node.DOCUMENT_POSITION_FOLLOWING) {
+      // Skip ahead instead of moving, so the matched node keeps its position (and focus)
+      cursor = nextManaged(match.nextSibling)
+    } else {
+      fromParent.insertBefore(match, cursor)
+    }
+
+    placed.add(match)
+    morphNode(match, toChild)
+  }
+
+  // Remove every existing child that has no counterpart in the new tree
+  for (const child of Array.from(fromParent.childNodes)) {
+    if (!placed.has(child) && isManaged(child)) {
+      fromParent.removeChild(child)
+    }
+  }
+}
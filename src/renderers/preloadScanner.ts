@@ -0,0 +1,238 @@
+/**
+ * Preload Scanner Implementation
+ *
+ * Like the browser's preload scanner, this module looks ahead through freshly parsed
+ * content and starts loading its subresources before the renderer gets to them.
+ * Scripts still execute one after another in document order; only the network
+ * requests overlap.
+ *
+ * What Is Preloaded:
+ * - External scripts: fetched right away when the renderer runs their source inline
+ *   (scoped scripts, modules under an import map), otherwise hinted with
+ *   `<link rel="preload" as="script">` (`modulepreload` for modules)
+ * - Stylesheets: hinted, and fetched right away when their @font-face rules are extracted
+ * - `<link rel="preload">` and `<link rel="modulepreload">` of the content: copied into
+ *   `document.head`, where the browser acts on them
+ *
+ * Hints are removed from `document.head` once the render finished. Deduplicated scripts
+ * an earlier render already loaded are left out, and so are all scripts when
+ * `beforeScriptExecute` decides about them.
+ *
+ * @module preloadScanner
+ */
+
+import { normalizeAttr } from '../extras/utils'
+import { isImportMapScript } from '../scripts/importMap'
+import { isScriptRegistered, shouldDedupeScript } from '../scripts/scriptRegistry'
+import { isScopableScript, needsScriptScope } from '../scripts/scriptScope'
+import { resolveUrl } from '../styles/cssUtils'
+import type { IHtmlRendererOptions, IScriptMeta } from '../extras/types'
+
+/**
+ * Requests started ahead of a render and the hints it added to the page.
+ */
+interface IPreloadScan {
+  /**
+   * Responses fetched ahead of time, keyed by absolute URL; each is handed out once.
+   */
+  responses: Map<string, Promise<Response>>
+
+  /**
+   * Preload links added to `document.head`.
+   */
+  hints: HTMLLinkElement[]
+
+  /**
+   * CSP nonce of the hints, from `IHtmlRendererOptions.nonce`.
+   */
+  nonce?: string
+}
+
+/**
+ * Scan of the current render of every root being rendered.
+ */
+const scans = new WeakMap<ParentNode, IPreloadScan>()
+
+/**
+ * Get the URL inline scripts, script sources and import maps of the rendered content
+ * resolve against.
+ *
+ * @param options - Renderer options
+ * @returns `options.baseUrl` made absolute, or the document's base URL
+ */
+export function getScriptBaseUrl(options: IHtmlRendererOptions): string {
+  return options.baseUrl ? resolveUrl(options.baseUrl, document.baseURI) : document.baseURI
+}
+
+/**
+ * Create the request options for fetching the source of an external script.
+ * Honors the script's `integrity` and `crossorigin` attributes.
+ *
+ * @param meta - Script metadata object
+ * @param signal - Signal that cancels the request
+ * @returns Options for `fetch`
+ */
+export function createScriptRequestInit(meta: IScriptMeta, signal?: AbortSignal): RequestInit {
+  return {
+    signal,
+    integrity: meta.attrs['integrity'],
+    credentials: meta.attrs['crossorigin'] === 'use-credentials' ? 'include' : 'same-origin',
+  }
+}
+
+/**
+ * Add a preload link to `document.head`.
+ */
+function addHint(scan: IPreloadScan, attrs: Record<string, string>): void {
+  const link = document.createElement('link')
+  for (const [k, v] of Object.entries(attrs)) {
+    link.setAttribute(k, v)
+  }
+  if (scan.nonce) {
+    link.nonce = scan.nonce
+  }
+  document.head.appendChild(link)
+  scan.hints.push(link)
+}
+
+/**
+ * Start fetching a URL, unless the scan already did.
+ */
+function prefetch(scan: IPreloadScan, url: string, init: RequestInit): void {
+  if (!scan.responses.has(url)) {
+    const response = fetch(url, init)
+    // Failures are reported by whoever takes the response
+    response.catch(() => {})
+    scan.responses.set(url, response)
+  }
+}
+
+/**
+ * Finish a scan: remove its hints and discard responses nobody took.
+ */
+function stopScan(root: ParentNode, scan: IPreloadScan): void {
+  if (scans.get(root) === scan) {
+    scans.delete(root)
+  }
+  scan.hints.forEach((link) => link.remove())
+  for (const response of scan.responses.values()) {
+    response.then((res) => res.body?.cancel()).catch(() => {})
+  }
+  scan.responses.clear()
+}
+
+/**
+ * Start loading the subresources of content that is about to be rendered.
+ *
+ * Replaces the previous scan of the root.
+ *
+ * @param root - The render root; the scan is looked up by it
+ * @param content - The parsed content, scanned for `<link>` elements
+ * @param scriptMetas - Scripts extracted from the content
+ * @param options - Renderer options; `options.signal` cancels the requests
+ * @param stylesheetBaseUrl - Base URL of the stylesheets; when set, stylesheets are
+ *   fetched for @font-face extraction
+ * @returns Function that finishes the scan once the render is done: it removes the
+ *   hints and discards responses nobody took
+ *
+ * @example
+ * ```ts
+ * const stopPreload = startPreloadScan(shadowRoot, doc, scriptMetas, options, getDocBaseUrl(doc));
+ * try {
+ *   // render, taking responses with takePreloadedResponse(shadowRoot, url)
+ * } finally {
+ *   stopPreload();
+ * }
+ * ```
+ */
+export function startPreloadScan(
+  root: ParentNode,
+  content: ParentNode,
+  scriptMetas: IScriptMeta[],
+  options: IHtmlRendererOptions,
+  stylesheetBaseUrl?: string,
+): () => void {
+  const previous = scans.get(root)
+  if (previous) {
+    stopScan(root, previous)
+  }
+  const scan: IPreloadScan = { responses: new Map(), hints: [], nonce: options.nonce }
+  scans.set(root, scan)
+
+  const scriptBase = getScriptBaseUrl(options)
+  const hasImportMap = scriptMetas.some(isImportMapScript)
+  // Scripts `beforeScriptExecute` may still block or rewrite are not requested early
+  for (const meta of options.beforeScriptExecute ? [] : scriptMetas) {
+    if (!meta.hasSrc || !meta.attrs['src'] || !isScopableScript(meta)) {
+      continue
+    }
+    const url = resolveUrl(normalizeAttr(meta.attrs['src']), scriptBase)
+    if (shouldDedupeScript(meta, options) && isScriptRegistered(url, meta.attrs['integrity'])) {
+      continue
+    }
+    if (needsScriptScope(options) || (meta.isModule && hasImportMap)) {
+      prefetch(scan, url, createScriptRequestInit(meta, options.signal))
+      continue
+    }
+    const { crossorigin, integrity, referrerpolicy } = meta.attrs
+    addHint(scan, {
+      ...(meta.isModule ? { rel: 'modulepreload' } : { rel: 'preload', as: 'script' }),
+      href: url,
+      ...(crossorigin !== undefined && { crossorigin }),
+      ...(integrity !== undefined && { integrity }),
+      ...(referrerpolicy !== undefined && { referrerpolicy }),
+    })
+  }
+
+  for (const link of Array.from(content.querySelectorAll('link[href]'))) {
+    const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/)
+    const isPreload = rel.includes('preload') || rel.includes('modulepreload')
+    const isStylesheet =
+      (rel.includes('stylesheet') && !rel.includes('alternate')) ||
+      (rel.includes('preload') && link.getAttribute('as') === 'style')
+    if ((!isPreload && !isStylesheet) || link.hasAttribute('disabled')) {
+      continue
+    }
+
+    const href = link.getAttribute('href')?.trim() || ''
+    const url = resolveUrl(href, stylesheetBaseUrl ?? scriptBase)
+    if (isStylesheet && stylesheetBaseUrl && !link.hasAttribute('media')) {
+      prefetch(scan, url, { signal: options.signal })
+    }
+    if (isPreload) {
+      const attrs: Record<string, string> = {}
+      for (const attr of Array.from(link.attributes)) {
+        attrs[attr.name] = attr.value
+      }
+      addHint(scan, { ...attrs, href: url })
+    } else {
+      const crossorigin = link.getAttribute('crossorigin')
+      addHint(scan, {
+        rel: 'preload',
+        as: 'style',
+        href: url,
+        ...(crossorigin !== null && { crossorigin }),
+      })
+    }
+  }
+  return () => stopScan(root, scan)
+}
+
+/**
+ * Take the response a scan fetched ahead of time for a URL.
+ *
+ * @param root - The render root
+ * @param url - The URL to fetch
+ * @returns The pending response, or undefined when the URL was not prefetched (or
+ *   was taken already)
+ */
+export function takePreloadedResponse(
+  root: ParentNode,
+  url: string,
+): Promise<Response> | undefined {
+  const scan = scans.get(root)
+  const key = resolveUrl(url, document.baseURI)
+  const response = scan?.responses.get(key)
+  scan?.responses.delete(key)
+  return response
+}
@@ -0,0 +1,80 @@
+/**
+ * Render Lifecycle Controller
+ *
+ * This module tracks the in-flight render of every root (shadow root or element)
+ * so overlapping renders cannot interfere with each other, and builds the
+ * `IRenderHandle` returned by the renderers.
+ *
+ * - Starting a render aborts the previous render on the same root
+ * - Clearing a root aborts its in-flight render
+ * - An external `AbortSignal` is linked to the render's own controller
+ *
+ * @module renderController
+ */
+
+import type { IRenderHandle, IRenderResult } from '../extras/types'
+
+/**
+ * The most recent render controller of each root.
+ */
+const latestRenders = new WeakMap<Node, AbortController>()
+
+/**
+ * Start tracking a new render on a root, aborting any previous render on it.
+ *
+ * @param root - The shadow root or element being rendered into
+ * @param signal - Optional external signal that aborts the render
+ * @returns The controller of the new render
+ */
+export function beginRender(root: Node, signal?: AbortSignal): AbortController {
+  abortRender(root)
+
+  const controller = new AbortController()
+  if (signal) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+    } else {
+      signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true })
+    }
+  }
+
+  latestRenders.set(root, controller)
+  return controller
+}
+
+/**
+ * Abort the in-flight render of a root, if any.
+ *
+ * @param root - The shadow root or element whose render should stop
+ */
+export function abortRender(root: Node): void {
+  latestRenders.get(root)?.abort()
+  latestRenders.delete(root)
+}
+
+/**
+ * Turn a render promise into an `IRenderHandle`.
+ *
+ * @param root - The shadow root or element being rendered into
+ * @param controller - The controller returned by `beginRender`
+ * @param promise - The render promise
+ * @param clear - Clears the root's content when the handle is disposed
+ * @returns The render promise extended with `dispose()` and `signal`
+ */
+export function createRenderHandle(
+  root: Node,
+  controller: AbortController,
+  promise: Promise<IRenderResult>,
+  clear: () => void,
+): IRenderHandle {
+  return Object.assign(promise, {
+    signal: controller.signal,
+    dispose(): void {
+      const isCurrent = latestRenders.get(root) === controller
+      controller.abort()
+      if (isCurrent) {
+        clear()
+      }
+    },
+  })
+}
@@ -0,0 +1,166 @@
+/**
+ * Script Retry Implementation
+ *
+ * This module holds the time limits and the retry policy for loading external
+ * scripts, so a flaky or hanging CDN cannot stall a render.
+ *
+ * Policy:
+ * - Every attempt can be given a time limit; an attempt that runs out is reported as
+ *   "timed-out" and is not retried, since the script may still run later
+ * - Failed attempts are retried with exponential backoff, up to `retries` times
+ * - By default, HTTP 4xx responses (except 408 and 429) are not retried
+ *
+ * @module scriptRetry
+ */
+
+import type { IScriptRetryPolicy, ScriptStatus } from '../extras/types'
+
+/**
+ * Outcome of loading an external script, possibly after several attempts.
+ */
+export interface IScriptAttempt<T = void> {
+  /**
+   * How the (last) attempt ended.
+   */
+  status: ScriptStatus
+
+  /**
+   * Error of a failed or timed-out attempt.
+   */
+  error?: unknown
+
+  /**
+   * Value produced by a successful attempt (e.g. the fetched source).
+   */
+  value?: T
+}
+
+/**
+ * Create the error reported for a script that ran out of time.
+ *
+ * @param message - Description of what timed out
+ * @returns A DOMException named "TimeoutError", like `AbortSignal.timeout()` uses
+ */
+export function createTimeoutError(message: string): DOMException {
+  return new DOMException(message, 'TimeoutError')
+}
+
+/**
+ * Check whether an error reports a time limit that ran out.
+ *
+ * @param error - The error to check
+ * @returns True for timeout errors
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'TimeoutError'
+}
+
+/**
+ * Reject with a timeout error when a promise does not settle in time.
+ *
+ * @param promise - The promise to wait for
+ * @param timeout - Time limit in milliseconds; no limit when undefined
+ * @param message - Message of the timeout error
+ * @param signal - Stops waiting when aborted, even if `promise` ignores the signal
+ * @returns Promise that settles like `promise`, or rejects once the time is up or the
+ *   signal aborted
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number | undefined,
+  message: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (timeout === undefined && !signal) {
+    return promise
+  }
+  return new Promise<T>((resolve, reject) => {
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => reject(createTimeoutError(message)), timeout)
+    const onAbort = (): void => reject(signal?.reason)
+    if (signal?.aborted) {
+      onAbort()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    })
+  })
+}
+
+/**
+ * Default retry filter: retry everything except HTTP client errors, which will not
+ * go away by themselves.
+ */
+function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status
+  return typeof status !== 'number' || status >= 500 || status === 408 || status === 429
+}
+
+/**
+ * Get the delay before a retry.
+ *
+ * @param policy - The retry policy
+ * @param retry - Number of the retry, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: IScriptRetryPolicy, retry: number): number {
+  const { delay = 250, backoff = 2, maxDelay = 5000 } = policy
+  return Math.min(delay * backoff ** (retry - 1), maxDelay)
+}
+
+/**
+ * Wait, or stop waiting early when the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run an attempt to load a script, retrying failures according to a policy.
+ *
+ * @param attempt - Loads the script once; must not throw
+ * @param policy - The retry policy; failures are final without one
+ * @param signal - Stops retrying when aborted
+ * @returns Outcome of the last attempt; "skipped" when aborted while waiting to retry
+ *
+ * @example
+ * ```ts
+ * const outcome = await runWithRetry(() => loadOnce(url), { retries: 2 }, signal);
+ * if (outcome.status === 'timed-out') {
+ *   showFallback();
+ * }
+ * ```
+ */
+export async function runWithRetry<T>(
+  attempt: () => Promise<IScriptAttempt<T>>,
+  policy: IScriptRetryPolicy | undefined,
+  signal?: AbortSignal,
+): Promise<IScriptAttempt<T>> {
+  const shouldRetry = policy?.shouldRetry ?? isTransientError
+  let outcome = await attempt()
+  for (let retry = 1; policy && retry <= policy.retries; retry++) {
+    if (outcome.status !== 'failed' || !shouldRetry(outcome.error, retry)) {
+      break
+    }
+    await sleep(getRetryDelay(policy, retry), signal)
+    if (signal?.aborted) {
+      return { status: 'skipped' }
+    }
+    outcome = await attempt()
+  }
+  return outcome
+}
@@ -9,51 +9,242 @@
  * - Preserves complete HTML structure (html, head, body tags)
  * - Extracts @font-face rules and injects into main document
  * - Full script execution support (async, defer, sequential, module)
+ * - State-preserving re-renders through DOM morphing
  *
  * @module shadowRenderer
  */
 
-import { normalizeHtml } from '../extras/utils'
+import { applyStyleNonce, toTrustedHTML } from '../extras/csp'
+import { applyResourcePolicy } from '../extras/resourcePolicy'
+import { sanitizeContent } from '../extras/sanitizer'
+import { createPlaceholderNode, normalizeHtml } from '../extras/utils'
+import {
+  beginScriptScope,
+  isScopableScript,
+  pruneScriptScopes,
+  releaseScriptScope,
+} from '../scripts/scriptScope'
+import { disableScripting } from '../scripts/scriptlessMode'
+import { getDocBaseUrl, getInnermostRule } from '../styles/cssUtils'
 import { collectFontFaceRulesFromDocument } from '../styles/fontFaceCollector'
-import { injectFontFaces } from '../styles/fontInjector'
-import { extractScriptsWithPlaceholders, insertScriptAtPlaceholder } from './directRenderer'
-import type { IScriptMeta } from '../extras/types'
+import {
+  detachFontFaces,
+  injectFontFaces,
+  releaseFontFaces,
+  retainFontFaces,
+} from '../styles/fontInjector'
+import { hideHostUntil, resolveFontWaitOptions, waitForFontFaces } from '../styles/fontReadiness'
+import { scopeFontFamilies } from '../styles/fontScoping'
+import { executeScripts, extractScriptsWithPlaceholders, readScriptMeta } from './directRenderer'
+import { getScriptSignature, morphNode, trackRenderedTree } from './domMorph'
+import { getScriptBaseUrl, startPreloadScan, takePreloadedResponse } from './preloadScanner'
+import { abortRender, beginRender, createRenderHandle } from './renderController'
+import type {
+  IFontFaceExtractionOptions,
+  IHtmlRendererOptions,
+  IRenderHandle,
+  IRenderResult,
+  IScriptMeta,
+} from '../extras/types'
+
+/**
+ * Signatures of the scripts rendered into each shadow root, with occurrence counts.
+ * Used by `updateShadowRoot` to run only scripts that are new or changed.
+ */
+const renderedScripts = new WeakMap<ShadowRoot, Map<string, number>>()
+
+/**
+ * Record the scripts rendered into a shadow root, counting identical scripts
+ * individually, so a later `updateShadowRoot` only runs new or changed ones.
+ *
+ * @param shadowRoot - The shadow root the scripts were rendered into
+ * @param metas - Metadata of every script in the rendered HTML
+ */
+export function recordRenderedScripts(shadowRoot: ShadowRoot, metas: IScriptMeta[]): void {
+  const counts = new Map<string, number>()
+  for (const meta of metas) {
+    const signature = getScriptSignature(meta)
+    counts.set(signature, (counts.get(signature) ?? 0) + 1)
+  }
+  renderedScripts.set(shadowRoot, counts)
+}
+
+/**
+ * Build the font extraction options of a render, reporting failed stylesheets and
+ * blocked resources into `result`.
+ *
+ * @param options - Renderer options
+ * @param result - The render result to record failed stylesheets in
+ * @param baseUrl - Base URL for relative stylesheet URLs (default: `options.baseUrl`)
+ */
+export function getRenderFontFaceOptions(
+  options: IHtmlRendererOptions,
+  result: IRenderResult,
+  baseUrl = options.baseUrl,
+): IFontFaceExtractionOptions {
+  const { onStylesheetError, onBlockedResource } = options.fontFaceOptions ?? {}
+  return {
+    baseUrl,
+    nonce: options.nonce,
+    resourcePolicy: options.resourcePolicy,
+    ...options.fontFaceOptions,
+    signal: options.signal,
+    onStylesheetError: (url, error) => {
+      result.failedStylesheets.push({ url, error })
+      onStylesheetError?.(url, error)
+    },
+    onBlockedResource: (resource) => {
+      result.blockedResources.push(resource)
+      onBlockedResource?.(resource)
+    },
+  }
+}
+
+/**
+ * Create an empty render result.
+ */
+export function createRenderResult(): IRenderResult {
+  return {
+    scripts: [],
+    fontFaceRules: [],
+    hoistedRules: [],
+    fonts: [],
+    failedStylesheets: [],
+    blockedResources: [],
+    aborted: false,
+  }
+}
+
+/**
+ * Prepare parsed content for rendering: sanitize it as `options.sanitize` configures,
+ * strip the resources `options.resourcePolicy` does not allow, reporting them into
+ * `result`, apply `options.nonce` to its styles, and scope its font families to
+ * `root` when `options.scopeFontFamilies` is set.
+ *
+ * @param doc - The parsed document
+ * @param options - Renderer options
+ * @param result - The render result to record blocked resources in
+ * @param root - The render root the content is rendered into
+ */
+export function prepareRenderContent(
+  doc: Document,
+  options: IHtmlRendererOptions,
+  result: IRenderResult,
+  root: ParentNode,
+): void {
+  // Promoted <noscript> content must go through the sanitizer and the resource policy
+  if (options.scripts === 'none') {
+    disableScripting(doc.documentElement, options)
+  }
+  if (options.sanitize) {
+    sanitizeContent(doc, options.sanitize, getScriptBaseUrl(options))
+  }
+  if (options.resourcePolicy) {
+    applyResourcePolicy(
+      doc,
+      options.resourcePolicy,
+      (resource) => result.blockedResources.push(resource),
+      getScriptBaseUrl(options),
+      getDocBaseUrl(doc, options.fontFaceOptions?.baseUrl ?? options.baseUrl),
+    )
+  }
+  applyStyleNonce(doc, options)
+  if (options.scopeFontFamilies) {
+    scopeFontFamilies(doc, root)
+  }
+}
+
+/**
+ * Record the at-rules a render hoisted into the main document in its result.
+ *
+ * @param result - The render result
+ * @param rules - The hoisted rules, as returned by `extractAndInjectFontFaces`
+ */
+export function recordHoistedRules(result: IRenderResult, rules: string[]): void {
+  result.hoistedRules = rules
+  result.fontFaceRules = rules.filter((rule) => /^@font-face/i.test(getInnermostRule(rule)))
+}
+
+/**
+ * Start waiting for the fonts of a render as `options.waitForFonts` configures, hiding
+ * the shadow host until they are ready when asked to.
+ *
+ * @returns The outcome of every face, or an empty list when the render does not wait
+ */
+function waitForRenderFonts(
+  shadowRoot: ShadowRoot,
+  result: IRenderResult,
+  options: IHtmlRendererOptions,
+): Promise<IRenderResult['fonts']> {
+  const fontWait = resolveFontWaitOptions(options.waitForFonts)
+  if (!fontWait) {
+    return Promise.resolve([])
+  }
+  const fontsReady = waitForFontFaces(result.fontFaceRules, fontWait, options.signal)
+  if (fontWait.hideHost) {
+    hideHostUntil(shadowRoot.host as HTMLElement, fontsReady)
+  }
+  return fontsReady
+}
 
 /**
  * Extract @font-face rules from style elements and inject into main document.
  *
  * Shadow DOM has limitations with @font-face: fonts declared inside shadow trees
  * may not download properly. This function extracts @font-face rules and injects
- * them into the main document's <head> so fonts load at document level.
+ * them into the main document's <head> so fonts load at document level. The other
+ * document-scoped at-rules in `options.atRules` (`@property`, `@counter-style`,
+ * `@font-palette-values`) are hoisted the same way.
  *
- * The extraction uses brace-counting to properly handle nested braces and
- * multi-line declarations within @font-face blocks.
+ * Stylesheets are read with the CSS tokenizer, so braces, quotes and comment markers
+ * inside strings and `url()` values never end a rule early.
  *
  * @param doc - The parsed document containing style elements
- * @param styleElementId - ID for the injected style element (default: "shadow-dom-fonts")
+ * @param options - Extraction options, or just the ID for the injected style element
+ *   (default: "shadow-dom-fonts"). Nothing is injected once `options.signal` is aborted.
+ * @param root - Render root to register the rules for; they are removed from the main
+ *   document once every root using them is released (see `releaseFontFaces`)
+ * @returns The collected rules (empty if the extraction was aborted)
  *
  * @example
  * ```ts
  * const parser = new DOMParser();
  * const doc = parser.parseFromString(html, "text/html");
  * await extractAndInjectFontFaces(doc);
+ * await extractAndInjectFontFaces(doc, { styleElementId: 'my-fonts', preventDuplicates: false });
  * ```
  */
 export async function extractAndInjectFontFaces(
   doc: Document,
-  styleElementId: string = 'shadow-dom-fonts',
-): Promise<void> {
-  const rules = await collectFontFaceRulesFromDocument(doc)
-  if (rules.size > 0) {
-    injectFontFaces(rules, styleElementId)
+  options: string | IFontFaceExtractionOptions = {},
+  root?: ParentNode,
+): Promise<string[]> {
+  const {
+    styleElementId = 'shadow-dom-fonts',
+    preventDuplicates = true,
+    nonce,
+  } = typeof options === 'string' ? { styleElementId: options } : options
+  const rules = await collectFontFaceRulesFromDocument(
+    doc,
+    typeof options === 'string' ? {} : options,
+  )
+  if (typeof options !== 'string' && options.signal?.aborted) {
+    return []
+  }
+  if (root) {
+    retainFontFaces(root, rules, styleElementId, preventDuplicates, nonce)
+  } else if (rules.size > 0) {
+    injectFontFaces(rules, styleElementId, preventDuplicates, nonce)
   }
+  return Array.from(rules)
 }
 
 /**
  * Render HTML content into a Shadow Root with style isolation and script execution.
  *
  * This function:
- * 1. Parses the HTML using DOMParser to preserve all structural tags
+ * 1. Parses the HTML using DOMParser to preserve all structural tags, and strips
+ *    resources `options.resourcePolicy` does not allow
  * 2. Extracts @font-face rules and injects them into the main document
  * 3. Extracts scripts and replaces them with placeholders
  * 4. Imports and appends the entire HTML structure to the shadow root
@@ -63,17 +254,44 @@ export async function extractAndInjectFontFaces(
  * but can still access fonts declared at the document level.
  * Scripts are executed with full support for async/defer/sequential semantics.
  *
+ * Starting a new render on the same shadow root aborts this one: its pending font
+ * fetches are cancelled and its remaining scripts are never inserted.
+ *
  * @param shadowRoot - The shadow root to render into
  * @param html - The HTML string to render
+ * @param options - Renderer options (script mode, font injection, base URL, abort signal, ...)
+ * @returns Render handle; a promise that resolves with an `IRenderResult` once all
+ *   scripts have settled (or the render was aborted), with `dispose()` and `signal`
  *
  * @example
  * ```ts
  * const host = document.createElement('div');
  * const shadowRoot = host.attachShadow({ mode: 'open' });
  * await renderIntoShadowRoot(shadowRoot, '<html><body><script>console.log("Hello")</script></body></html>');
+ * await renderIntoShadowRoot(shadowRoot, html, { injectFontFaces: false });
+ *
+ * const handle = renderIntoShadowRoot(shadowRoot, html);
+ * handle.dispose(); // abort pending work and clear the shadow root
  * ```
  */
-export async function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string): Promise<void> {
+export function renderIntoShadowRoot(
+  shadowRoot: ShadowRoot,
+  html: string,
+  options: IHtmlRendererOptions = {},
+): IRenderHandle {
+  const controller = beginRender(shadowRoot, options.signal)
+  const promise = performShadowRender(shadowRoot, html, { ...options, signal: controller.signal })
+  return createRenderHandle(shadowRoot, controller, promise, () => clearShadowRoot(shadowRoot))
+}
+
+/**
+ * Perform a full shadow render; `options.signal` is the render's own signal.
+ */
+async function performShadowRender(
+  shadowRoot: ShadowRoot,
+  html: string,
+  options: IHtmlRendererOptions,
+): Promise<IRenderResult> {
   // Clear existing content
   while (shadowRoot.firstChild) {
     shadowRoot.removeChild(shadowRoot.firstChild)
@@ -81,54 +299,196 @@ export async function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string)
 
   // Parse HTML using DOMParser to preserve structural tags like <html>, <body>, <head>
   const parser = new DOMParser()
-  const doc = parser.parseFromString(normalizeHtml(html), 'text/html')
-
-  // Extract and inject @font-face rules into main document
-  // This ensures fonts are loaded at document level and available to shadow DOM
-  await extractAndInjectFontFaces(doc)
+  const doc = parser.parseFromString(toTrustedHTML(normalizeHtml(html), options), 'text/html')
+  const result = createRenderResult()
+  prepareRenderContent(doc, options, result, shadowRoot)
+  // Rules of the previous render are released once the new ones are registered
+  const previousFonts = detachFontFaces(shadowRoot)
 
   // Extract scripts and replace with placeholders before importing
   // This is necessary because scripts inserted via innerHTML won't execute
-  const scriptMetas = extractScriptsWithPlaceholders(doc.documentElement as HTMLElement)
-
-  // Import the entire documentElement (html tag and all its contents)
-  // This preserves the complete HTML structure including html, head, and body tags
-  const importedNode = document.importNode(doc.documentElement, true)
-
-  // Append directly to shadow root without wrapper or scaler
-  shadowRoot.appendChild(importedNode)
-
-  // Execute scripts in proper order (same logic as directRenderer)
-  // Group scripts for the correct execution order
-  const sequential: IScriptMeta[] = []
-  const asyncScripts: IScriptMeta[] = []
-  const deferScripts: IScriptMeta[] = []
-
-  for (const m of scriptMetas) {
-    if (m.isAsync) {
-      asyncScripts.push(m)
-    } else if (m.isDefer) {
-      deferScripts.push(m)
-    } else {
-      sequential.push(m)
+  const scriptMetas = extractScriptsWithPlaceholders(doc.documentElement as HTMLElement, options)
+
+  // Start fetching scripts and stylesheets now, so they load while fonts are extracted
+  // and while earlier scripts run; a custom stylesheet fetch is left to do its own requests
+  const fontFaceOptions = getRenderFontFaceOptions(options, result)
+  const fetchStylesheets = options.injectFontFaces !== false && !fontFaceOptions.fetch
+  const stopPreload = startPreloadScan(
+    shadowRoot,
+    doc,
+    scriptMetas,
+    options,
+    fetchStylesheets ? getDocBaseUrl(doc, fontFaceOptions.baseUrl) : undefined,
+  )
+
+  try {
+    // Extract and inject @font-face rules into main document
+    // This ensures fonts are loaded at document level and available to shadow DOM
+    if (options.injectFontFaces !== false) {
+      const rules = await extractAndInjectFontFaces(
+        doc,
+        {
+          ...fontFaceOptions,
+          fetch: (url, init) =>
+            takePreloadedResponse(shadowRoot, url) ?? (fontFaceOptions.fetch ?? fetch)(url, init),
+        },
+        shadowRoot,
+      )
+      recordHoistedRules(result, rules)
     }
+
+    // A newer render (or dispose) took over while fonts were loading; nothing of this
+    // render was registered, so the previous rules stay until that one releases them
+    if (options.signal?.aborted) {
+      previousFonts.restore()
+      return { ...result, aborted: true }
+    }
+    previousFonts.release()
+
+    // Fonts load while scripts run; the host stays hidden until they are ready if asked
+    const fontsReady = waitForRenderFonts(shadowRoot, result, options)
+
+    // Import the entire documentElement (html tag and all its contents)
+    // This preserves the complete HTML structure including html, head, and body tags
+    const importedNode = document.importNode(doc.documentElement, true)
+
+    // Append directly to shadow root without wrapper or scaler
+    shadowRoot.appendChild(importedNode)
+    trackRenderedTree(importedNode)
+    recordRenderedScripts(shadowRoot, scriptMetas)
+
+    // Execute scripts in proper order (same logic as directRenderer)
+    const scope = beginScriptScope(shadowRoot, options)
+    result.scripts = await executeScripts(
+      shadowRoot,
+      scriptMetas,
+      options,
+      scope?.lifecycle,
+      (resource) => result.blockedResources.push(resource),
+    )
+    result.fonts = await fontsReady
+    result.aborted = !!options.signal?.aborted
+    return result
+  } finally {
+    stopPreload()
+  }
+}
+
+/**
+ * Re-render HTML content into a Shadow Root by morphing the existing tree.
+ *
+ * Instead of clearing the shadow root, this function:
+ * 1. Parses the new HTML using DOMParser
+ * 2. Extracts and injects any new @font-face rules
+ * 3. Replaces only new or changed scripts with placeholders
+ * 4. Diffs the parsed documentElement against the rendered one and patches
+ *    only what changed (keyed by `id`/`data-key`)
+ * 5. Executes the new or changed scripts in proper order
+ *
+ * Unchanged nodes keep their identity, so focus, scroll position, form input
+ * values and DOM created by scripts survive the update. Falls back to
+ * `renderIntoShadowRoot` when nothing has been rendered yet.
+ *
+ * @param shadowRoot - The shadow root to update
+ * @param html - The new HTML string
+ * @param options - Renderer options (script mode, font injection, base URL, abort signal, ...)
+ * @returns Render handle, like `renderIntoShadowRoot`
+ *
+ * @example
+ * ```ts
+ * await renderIntoShadowRoot(shadowRoot, dashboardHtml);
+ * // later, with fresh data
+ * await updateShadowRoot(shadowRoot, nextDashboardHtml);
+ * ```
+ */
+export function updateShadowRoot(
+  shadowRoot: ShadowRoot,
+  html: string,
+  options: IHtmlRendererOptions = {},
+): IRenderHandle {
+  const controller = beginRender(shadowRoot, options.signal)
+  const promise = performShadowUpdate(shadowRoot, html, { ...options, signal: controller.signal })
+  return createRenderHandle(shadowRoot, controller, promise, () => clearShadowRoot(shadowRoot))
+}
+
+/**
+ * Perform a morphing update; `options.signal` is the render's own signal.
+ */
+async function performShadowUpdate(
+  shadowRoot: ShadowRoot,
+  html: string,
+  options: IHtmlRendererOptions,
+): Promise<IRenderResult> {
+  const current = shadowRoot.firstElementChild
+  if (!current || current.tagName !== 'HTML') {
+    return performShadowRender(shadowRoot, html, options)
   }
 
-  // 1) Run sequential scripts in-order; each waits for previous to finish
-  for (const m of sequential) {
-    await insertScriptAtPlaceholder(shadowRoot, m)
+  const parser = new DOMParser()
+  const doc = parser.parseFromString(toTrustedHTML(normalizeHtml(html), options), 'text/html')
+  const result = createRenderResult()
+  prepareRenderContent(doc, options, result, shadowRoot)
+
+  const previousFonts = detachFontFaces(shadowRoot)
+  if (options.injectFontFaces !== false) {
+    recordHoistedRules(
+      result,
+      await extractAndInjectFontFaces(doc, getRenderFontFaceOptions(options, result), shadowRoot),
+    )
   }
 
-  // 2) Fire async scripts without awaiting their completion
-  for (const m of asyncScripts) {
-    void insertScriptAtPlaceholder(shadowRoot, m)
+  // The current content stays when the update is aborted, and so do its fonts
+  if (options.signal?.aborted) {
+    previousFonts.restore()
+    return { ...result, aborted: true }
   }
+  previousFonts.release()
+
+  // Scripts whose signature was already rendered stay as inert elements, so the morph
+  // keeps the live ones untouched; new or changed scripts become placeholders.
+  const remaining = new Map(renderedScripts.get(shadowRoot))
+  const allMetas: IScriptMeta[] = []
+  const scriptMetas: IScriptMeta[] = []
 
-  // 3) After DOM flush (microtask), run defer scripts in-order
-  await Promise.resolve()
-  for (const m of deferScripts) {
-    await insertScriptAtPlaceholder(shadowRoot, m)
+  if (options.scripts === 'none') {
+    extractScriptsWithPlaceholders(doc.documentElement as HTMLElement, options)
+  } else {
+    for (const script of Array.from(doc.documentElement.querySelectorAll('script'))) {
+      const meta = readScriptMeta(script)
+      const signature = getScriptSignature(meta)
+      const count = remaining.get(signature) ?? 0
+      allMetas.push(meta)
+      if (count > 0) {
+        remaining.set(signature, count - 1)
+        continue
+      }
+      script.replaceWith(createPlaceholderNode(meta.id))
+      scriptMetas.push(meta)
+    }
   }
+
+  const fontsReady = waitForRenderFonts(shadowRoot, result, options)
+  morphNode(current, doc.documentElement)
+  recordRenderedScripts(shadowRoot, allMetas)
+
+  // Only new or changed scripts are reported; unchanged ones were not run again.
+  // Scripts kept from earlier renders stay live, so their side effects are kept too,
+  // while the scopes of removed scripts are released. An update without new scripts
+  // needs no scope of its own.
+  pruneScriptScopes(shadowRoot)
+  const scope = scriptMetas.some(isScopableScript)
+    ? beginScriptScope(shadowRoot, options, true)
+    : undefined
+  result.scripts = await executeScripts(
+    shadowRoot,
+    scriptMetas,
+    options,
+    scope?.lifecycle,
+    (resource) => result.blockedResources.push(resource),
+  )
+  result.fonts = await fontsReady
+  result.aborted = !!options.signal?.aborted
+  return result
 }
 
 /**
@@ -136,7 +496,8 @@ export async function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string)
  *
  * This is a utility function for cleanup operations. It uses a while loop
  * with removeChild for deterministic cleanup without touching the shadow
- * root element itself.
+ * root element itself. Any in-flight render into the shadow root is aborted first, and
+ * the hoisted rules no other root uses are removed from the main document.
  *
  * @param shadowRoot - The shadow root to clear
  *
@@ -146,6 +507,10 @@ export async function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string)
  * ```
  */
 export function clearShadowRoot(shadowRoot: ShadowRoot): void {
+  abortRender(shadowRoot)
+  releaseScriptScope(shadowRoot)
+  releaseFontFaces(shadowRoot)
+  renderedScripts.delete(shadowRoot)
   while (shadowRoot.firstChild) {
     shadowRoot.removeChild(shadowRoot.firstChild)
   }
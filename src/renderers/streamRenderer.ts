@@ -0,0 +1,430 @@
+/**
+ * Streaming Shadow DOM Renderer Implementation
+ *
+ * This module renders HTML that arrives in chunks (e.g. from a `fetch` response body
+ * or an LLM token stream) progressively into a Shadow Root, instead of buffering the
+ * whole document first.
+ *
+ * Key Features:
+ * - Accepts a `ReadableStream` or any async iterable of string / Uint8Array chunks
+ * - Re-parses the received HTML and morphs it into the shadow root, so content appears
+ *   as soon as it arrives; chunks arriving within the same animation frame are
+ *   parsed together, so token-by-token streams are not re-parsed once per token
+ * - Scripts run once their closing tag has arrived, with the same
+ *   sequential/async/defer semantics as the other renderers
+ * - @font-face and other hoisted at-rules are collected as <style> and <link> elements arrive
+ * - `options.sanitize` and `options.resourcePolicy` are applied to every chunk before it
+ *   is morphed in
+ *
+ * @module streamRenderer
+ */
+
+import { applyStyleNonce, toTrustedHTML } from '../extras/csp'
+import { applyResourcePolicy, isAllowedUrl } from '../extras/resourcePolicy'
+import { sanitizeContent } from '../extras/sanitizer'
+import { createPlaceholderNode, normalizeHtml } from '../extras/utils'
+import { beginScriptScope } from '../scripts/scriptScope'
+import { disableScripting } from '../scripts/scriptlessMode'
+import { getDocBaseUrl, resolveUrl } from '../styles/cssUtils'
+import { resolveFontWaitOptions, waitForFontFaces } from '../styles/fontReadiness'
+import { scopeFontFamilies } from '../styles/fontScoping'
+import { executeScripts, extractScriptsWithPlaceholders, readScriptMeta } from './directRenderer'
+import { morphNode, trackRenderedTree } from './domMorph'
+import { getScriptBaseUrl } from './preloadScanner'
+import { beginRender, createRenderHandle } from './renderController'
+import {
+  clearShadowRoot,
+  createRenderResult,
+  extractAndInjectFontFaces,
+  getRenderFontFaceOptions,
+  recordHoistedRules,
+  recordRenderedScripts,
+} from './shadowRenderer'
+import type {
+  HtmlStreamSource,
+  IBlockedResource,
+  IHtmlRendererOptions,
+  IRenderHandle,
+  IRenderResult,
+  IScriptMeta,
+  IScriptResult,
+} from '../extras/types'
+
+/**
+ * Time in ms after which a flush waiting for an animation frame runs anyway, since
+ * hidden documents get no frames.
+ */
+const FRAME_FALLBACK_TIMEOUT = 100
+
+/**
+ * Character appended to the received HTML to find an unterminated raw-text element:
+ * only an element whose closing tag has not arrived reads it as its own text.
+ */
+const END_MARKER = '\uE000'
+
+/**
+ * Read a stream source as decoded text chunks.
+ *
+ * ReadableStreams are consumed through their reader, since async iteration of
+ * streams is not available in every browser. The stream is cancelled (or the
+ * iterator returned) as soon as `signal` is aborted, without waiting for the
+ * next chunk.
+ */
+async function* readChunks(source: HtmlStreamSource, signal?: AbortSignal): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+
+  if ('getReader' in source) {
+    const reader = source.getReader()
+    // Cancelling settles a pending read, so an abort does not wait for the next chunk
+    const cancel = (): void => {
+      reader.cancel(signal?.reason).catch(() => undefined)
+    }
+    signal?.addEventListener('abort', cancel, { once: true })
+    try {
+      while (!signal?.aborted) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        yield decode(value)
+      }
+    } finally {
+      signal?.removeEventListener('abort', cancel)
+      reader.releaseLock()
+    }
+  } else {
+    const iterator = source[Symbol.asyncIterator]()
+    let stop = (): void => {}
+    const stopped = new Promise<IteratorReturnResult<undefined>>((resolve) => {
+      stop = () => resolve({ done: true, value: undefined })
+    })
+    signal?.addEventListener('abort', stop, { once: true })
+    let exhausted = false
+    try {
+      while (!signal?.aborted) {
+        const next = await Promise.race([iterator.next(), stopped])
+        if (next.done) {
+          exhausted = !signal?.aborted
+          break
+        }
+        yield decode(next.value)
+      }
+    } finally {
+      signal?.removeEventListener('abort', stop)
+      // Like `for await`, an iterator left early is told to clean up
+      if (!exhausted) {
+        Promise.resolve(iterator.return?.()).catch(() => undefined)
+      }
+    }
+  }
+
+  const tail = decoder.decode()
+  if (tail) {
+    yield tail
+  }
+}
+
+/**
+ * Wait for the next animation frame, or `FRAME_FALLBACK_TIMEOUT` when none comes.
+ */
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, FRAME_FALLBACK_TIMEOUT)
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+    }
+  })
+}
+
+/**
+ * Find the <script> or <style> element whose closing tag has not arrived yet.
+ *
+ * The parser reads everything after such a start tag as its text, so only the last one
+ * in document order can be unterminated. Parsing the HTML again with a marker appended
+ * tells whether its text runs to the end of the input; unlike searching for closing
+ * tags, this is not fooled by ones inside comments, strings or other raw text.
+ *
+ * @param parser - Parser for the probe
+ * @param html - The received HTML, as parsed into `doc`
+ * @param doc - The parsed document
+ * @param options - Renderer options, for the Trusted Types policy
+ * @returns The unterminated element of `doc`, if any
+ */
+function findUnterminatedElement(
+  parser: DOMParser,
+  html: string,
+  doc: Document,
+  options: IHtmlRendererOptions,
+): Element | undefined {
+  const elements = doc.querySelectorAll('script, style')
+  const last = elements[elements.length - 1]
+  if (!last) {
+    return undefined
+  }
+  const probe = parser
+    .parseFromString(toTrustedHTML(html + END_MARKER, options), 'text/html')
+    .querySelectorAll('script, style')
+  const probed = probe[probe.length - 1]
+  return probed?.textContent === `${last.textContent}${END_MARKER}` ? last : undefined
+}
+
+/**
+ * Render a stream of HTML chunks progressively into a Shadow Root.
+ *
+ * This function:
+ * 1. Clears the shadow root
+ * 2. For received chunks, re-parses the HTML received so far and morphs it into the
+ *    shadow root, so unchanged nodes are kept and new ones appended; this happens at
+ *    most once per animation frame, and chunks arriving in between are parsed together
+ * 3. Collects @font-face rules from <style> and <link> elements as they complete
+ * 4. Runs sequential and async scripts as soon as their closing tag arrives;
+ *    sequential scripts block processing of further chunks, like the HTML parser
+ * 5. After the stream ends, waits for font collection and runs defer scripts in order
+ *
+ * Scripts that are still incomplete when the stream ends are never executed,
+ * matching browser behavior for unterminated <script> elements. Aborting the
+ * render stops reading and cancels the stream.
+ *
+ * @param shadowRoot - The shadow root to render into
+ * @param source - A ReadableStream or async iterable of HTML chunks
+ * @param options - Renderer options (script mode, font injection, base URL, abort signal, ...)
+ * @returns Render handle; a promise that resolves with an `IRenderResult` once the
+ *   stream has ended and all scripts have settled (or the render was aborted),
+ *   with `dispose()` and `signal`
+ *
+ * @example
+ * ```ts
+ * const response = await fetch('/reports/42');
+ * await renderStreamIntoShadowRoot(shadowRoot, response.body!);
+ * ```
+ */
+export function renderStreamIntoShadowRoot(
+  shadowRoot: ShadowRoot,
+  source: HtmlStreamSource,
+  options: IHtmlRendererOptions = {},
+): IRenderHandle {
+  clearShadowRoot(shadowRoot)
+  const controller = beginRender(shadowRoot, options.signal)
+  const promise = performStreamRender(shadowRoot, source, {
+    ...options,
+    signal: controller.signal,
+  })
+  return createRenderHandle(shadowRoot, controller, promise, () => clearShadowRoot(shadowRoot))
+}
+
+/**
+ * Perform a streaming render; `options.signal` is the render's own signal.
+ */
+async function performStreamRender(
+  shadowRoot: ShadowRoot,
+  source: HtmlStreamSource,
+  options: IHtmlRendererOptions,
+): Promise<IRenderResult> {
+  const parser = new DOMParser()
+  const scriptMetas: IScriptMeta[] = [] // indexed by document order; blocked scripts leave holes
+  const insertedScripts = new Set<string>()
+  const deferScripts: IScriptMeta[] = []
+  const scriptResults = new Map<string, IScriptResult>()
+  const fontTasks: Promise<string[]>[] = []
+  const result = createRenderResult()
+  let fontSourceCount = 0
+  let buffer = ''
+  let flushed: string | undefined
+  const scope = beginScriptScope(shadowRoot, options)
+
+  // Every flush parses the whole buffer again, so a blocked resource is reported once
+  const policy = options.resourcePolicy
+  const reported = new Set<string>()
+  const report = (resource: IBlockedResource): void => {
+    const key = `${resource.kind} ${resource.url}`
+    if (!reported.has(key)) {
+      reported.add(key)
+      result.blockedResources.push(resource)
+    }
+  }
+
+  async function flush(): Promise<void> {
+    // Chunks keep arriving while scripts run, so the flush works on what it started with
+    flushed = buffer
+    const html = normalizeHtml(buffer)
+    const doc = parser.parseFromString(toTrustedHTML(html, options), 'text/html')
+
+    // An incomplete script is held back and an incomplete style is not collected yet;
+    // both are found before sanitizing changes the document
+    const unterminated = findUnterminatedElement(parser, html, doc, options)
+    const openStyle = unterminated?.tagName === 'STYLE' ? unterminated : undefined
+    if (unterminated?.tagName === 'SCRIPT') {
+      unterminated.remove()
+    }
+    if (options.scripts === 'none') {
+      disableScripting(doc.documentElement, options)
+    }
+    if (options.sanitize) {
+      sanitizeContent(doc, options.sanitize, getScriptBaseUrl(options))
+    }
+
+    // Complete scripts become placeholders until inserted
+    const newMetas: IScriptMeta[] = []
+    if (options.scripts === 'none') {
+      extractScriptsWithPlaceholders(doc.documentElement as HTMLElement, options)
+    } else {
+      const scripts = Array.from(doc.documentElement.querySelectorAll('script'))
+      scripts.forEach((script, index) => {
+        const src = script.getAttribute('src')
+        if (policy && src !== null) {
+          const url = resolveUrl(src.trim(), getScriptBaseUrl(options))
+          if (!isAllowedUrl(url, policy.scripts)) {
+            report({ kind: 'script', url })
+            script.remove()
+            return
+          }
+        }
+        if (!scriptMetas[index]) {
+          scriptMetas[index] = readScriptMeta(script)
+          newMetas.push(scriptMetas[index])
+        }
+        if (!insertedScripts.has(scriptMetas[index].id)) {
+          script.replaceWith(createPlaceholderNode(scriptMetas[index].id))
+        }
+      })
+    }
+
+    // Scripts were checked by position above; the remaining resources are checked now
+    if (policy) {
+      applyResourcePolicy(
+        doc,
+        policy,
+        report,
+        getScriptBaseUrl(options),
+        getDocBaseUrl(doc, options.fontFaceOptions?.baseUrl ?? options.baseUrl),
+      )
+    }
+    applyStyleNonce(doc, options)
+    if (options.scopeFontFamilies) {
+      scopeFontFamilies(doc, shadowRoot)
+    }
+
+    // Hand newly completed <style>/<link> elements to the font collector
+    if (options.injectFontFaces !== false) {
+      const sources: Element[] = []
+      for (const el of Array.from(doc.querySelectorAll('style, link'))) {
+        if (el === openStyle) {
+          break
+        }
+        sources.push(el)
+      }
+      if (sources.length > fontSourceCount) {
+        const fontDoc = document.implementation.createHTMLDocument('')
+        for (const el of sources.slice(fontSourceCount)) {
+          fontDoc.head.appendChild(fontDoc.importNode(el, true))
+        }
+        fontSourceCount = sources.length
+        fontTasks.push(
+          extractAndInjectFontFaces(
+            fontDoc,
+            getRenderFontFaceOptions(options, result, getDocBaseUrl(doc, options.baseUrl)),
+            shadowRoot,
+          ),
+        )
+      }
+    }
+
+    const current = shadowRoot.firstElementChild
+    if (current && current.tagName === 'HTML') {
+      morphNode(current, doc.documentElement)
+    } else {
+      const importedNode = document.importNode(doc.documentElement, true)
+      shadowRoot.appendChild(importedNode)
+      trackRenderedTree(importedNode)
+    }
+
+    // Sequential and async scripts run now; defer and module scripts wait for the end of the stream
+    const runNow: IScriptMeta[] = []
+    for (const m of newMetas) {
+      if ((m.isDefer || m.isModule) && !m.isAsync) {
+        deferScripts.push(m)
+      } else {
+        runNow.push(m)
+        insertedScripts.add(m.id)
+      }
+    }
+    for (const r of await executeScripts(shadowRoot, runNow, options, undefined, report)) {
+      scriptResults.set(r.meta.id, r)
+    }
+  }
+
+  // Scripts that were never complete or never reached are reported as skipped
+  const finish = async (): Promise<IRenderResult> => {
+    recordHoistedRules(result, (await Promise.all(fontTasks)).flat())
+    const fontWait = resolveFontWaitOptions(options.waitForFonts)
+    if (fontWait) {
+      result.fonts = await waitForFontFaces(result.fontFaceRules, fontWait, options.signal)
+    }
+    result.scripts = scriptMetas
+      .filter(Boolean)
+      .map(
+        (meta) => scriptResults.get(meta.id) ?? { meta, status: 'skipped' as const, duration: 0 },
+      )
+    result.aborted = !!options.signal?.aborted
+    return result
+  }
+
+  // Flushes run one at a time and at most once per animation frame: a chunk arriving
+  // sooner is only buffered, and the flush of the next frame picks it up
+  let flushing = Promise.resolve()
+  let frameDue = true
+  let ended = false
+  const requestFlush = (): Promise<void> => {
+    flushing = flushing.then(async () => {
+      if (!options.signal?.aborted && flushed !== buffer) {
+        frameDue = false
+        void nextFrame().then(() => {
+          frameDue = true
+          if (!ended && flushed !== buffer) {
+            void requestFlush()
+          }
+        })
+        await flush()
+      }
+    })
+    return flushing
+  }
+
+  for await (const chunk of readChunks(source, options.signal)) {
+    // A flush started at the next frame holds back this chunk like one started here,
+    // and a due flush is awaited, so their sequential scripts hold back further chunks
+    await flushing
+    if (options.signal?.aborted) {
+      break
+    }
+    buffer += chunk
+    if (frameDue) {
+      await requestFlush()
+    }
+  }
+  ended = true
+  await flushing
+  if (options.signal?.aborted) {
+    return finish()
+  }
+  await requestFlush()
+
+  await Promise.all(fontTasks)
+  // The document is only complete now, so lifecycle events fire with the defer scripts
+  for (const r of await executeScripts(
+    shadowRoot,
+    deferScripts,
+    options,
+    scope?.lifecycle,
+    report,
+  )) {
+    scriptResults.set(r.meta.id, r)
+  }
+  recordRenderedScripts(shadowRoot, scriptMetas.filter(Boolean))
+  return finish()
+}
@@ -0,0 +1,268 @@
+/**
+ * Import Map Implementation
+ *
+ * This module applies the `<script type="importmap">` elements of rendered HTML to
+ * its module scripts. Import maps are never handed to the browser: it ignores them
+ * inside shadow roots, and in the main document they would clash with (or leak
+ * into) the host page's own import map.
+ *
+ * How It Works:
+ * - Import maps found while rendering are parsed and merged per render root;
+ *   like in the browser, rules of an earlier map win over later ones
+ * - `import`/`export ... from` statements and `import()` calls with a string
+ *   literal in the rendered module scripts are rewritten to absolute URLs
+ * - Bare specifiers the rendered maps do not know are left as they are, so the
+ *   host page's import map still applies to them
+ *
+ * Only the module scripts of the rendered HTML are rewritten, not the modules they
+ * import, so bare specifiers inside those only resolve through the host page's import
+ * map. External module scripts are fetched and run inline to be rewritten, so their
+ * `import.meta.url` is the page's URL.
+ *
+ * @module importMap
+ */
+
+import type { IScriptMeta } from '../extras/types'
+
+/**
+ * A parsed import map with absolute URLs.
+ */
+export interface IImportMap {
+  /**
+   * Top-level specifier map.
+   */
+  imports: Record<string, string>
+
+  /**
+   * Specifier maps that only apply to modules under a URL prefix, keyed by that prefix.
+   */
+  scopes: Record<string, Record<string, string>>
+}
+
+/**
+ * Merged import map of every render root that rendered one.
+ */
+const importMaps = new WeakMap<ParentNode, IImportMap>()
+
+/**
+ * Parse a URL-like specifier (absolute, or starting with `/`, `./` or `../`).
+ *
+ * @returns The absolute URL, or null for bare specifiers
+ */
+function parseUrlLikeSpecifier(specifier: string, baseUrl: string): string | null {
+  try {
+    if (/^(\/|\.\/|\.\.\/)/.test(specifier)) {
+      return new URL(specifier, baseUrl).href
+    }
+    return new URL(specifier).href
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Normalize a specifier map: keys and addresses become absolute URLs where they are
+ * URL-like, and entries with an invalid address are dropped.
+ */
+function normalizeSpecifierMap(map: unknown, baseUrl: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  if (!map || typeof map !== 'object') {
+    return result
+  }
+  for (const [key, value] of Object.entries(map)) {
+    const address = typeof value === 'string' ? parseUrlLikeSpecifier(value, baseUrl) : null
+    if (key && address && (!key.endsWith('/') || address.endsWith('/'))) {
+      result[parseUrlLikeSpecifier(key, baseUrl) ?? key] = address
+    }
+  }
+  return result
+}
+
+/**
+ * Parse the JSON source of an import map.
+ *
+ * @param json - Text of the `<script type="importmap">` element
+ * @param baseUrl - URL relative addresses and scopes are resolved against
+ * @returns The parsed import map
+ * @throws SyntaxError when the source is not a JSON object
+ *
+ * @example
+ * ```ts
+ * const map = parseImportMap('{"imports": {"lit": "./vendor/lit.js"}}', 'https://example.com/');
+ * map.imports.lit; // "https://example.com/vendor/lit.js"
+ * ```
+ */
+export function parseImportMap(json: string, baseUrl: string): IImportMap {
+  const parsed: unknown = JSON.parse(json)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SyntaxError('An import map must be a JSON object')
+  }
+  const { imports, scopes } = parsed as { imports?: unknown; scopes?: unknown }
+
+  const map: IImportMap = { imports: normalizeSpecifierMap(imports, baseUrl), scopes: {} }
+  if (scopes && typeof scopes === 'object') {
+    for (const [prefix, scopeMap] of Object.entries(scopes)) {
+      map.scopes[new URL(prefix, baseUrl).href] = normalizeSpecifierMap(scopeMap, baseUrl)
+    }
+  }
+  return map
+}
+
+/**
+ * Merge a new import map into an existing one. Rules already present win.
+ *
+ * @param existing - The map in effect so far
+ * @param added - The map that appeared later in the document
+ * @returns The merged map
+ */
+export function mergeImportMaps(existing: IImportMap, added: IImportMap): IImportMap {
+  const scopes = { ...existing.scopes }
+  for (const [prefix, scopeMap] of Object.entries(added.scopes)) {
+    scopes[prefix] = { ...scopeMap, ...scopes[prefix] }
+  }
+  return { imports: { ...added.imports, ...existing.imports }, scopes }
+}
+
+/**
+ * Check whether a script is an import map.
+ *
+ * @param meta - Script metadata object
+ * @returns True for `<script type="importmap">`
+ */
+export function isImportMapScript(meta: IScriptMeta): boolean {
+  return (meta.attrs['type'] ?? '').trim().toLowerCase() === 'importmap'
+}
+
+/**
+ * Add an import map to the maps of a render root.
+ *
+ * @param root - The render root the import map was rendered into
+ * @param map - The parsed import map
+ */
+export function registerImportMap(root: ParentNode, map: IImportMap): void {
+  const existing = importMaps.get(root)
+  importMaps.set(root, existing ? mergeImportMaps(existing, map) : map)
+}
+
+/**
+ * Get the merged import map of a render root.
+ *
+ * @param root - The render root
+ * @returns The merged map, or undefined when no import map was rendered
+ */
+export function getImportMap(root: ParentNode): IImportMap | undefined {
+  return importMaps.get(root)
+}
+
+/**
+ * Forget the import maps of a render root, e.g. before it is rendered again.
+ *
+ * @param root - The render root
+ */
+export function clearImportMap(root: ParentNode): void {
+  importMaps.delete(root)
+}
+
+/**
+ * Find the address of a specifier in a specifier map: an exact match, or the
+ * longest matching prefix ending with `/`.
+ */
+function matchSpecifierMap(
+  specifier: string,
+  isUrl: boolean,
+  map: Record<string, string>,
+): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(map, specifier)) {
+    return map[specifier]
+  }
+  let best: string | undefined
+  for (const key of Object.keys(map)) {
+    if (
+      key.endsWith('/') &&
+      specifier.startsWith(key) &&
+      (!best || key.length > best.length) &&
+      (!isUrl || /^(https?|wss?|ftp|file):/.test(specifier))
+    ) {
+      best = key
+    }
+  }
+  return best === undefined ? undefined : map[best] + specifier.slice(best.length)
+}
+
+/**
+ * Resolve a module specifier like the browser would with an import map.
+ *
+ * @param specifier - The specifier as written in the module
+ * @param map - The import map; omit to resolve against the base URL only
+ * @param baseUrl - URL of the importing module
+ * @returns The absolute URL; bare specifiers the map does not know are returned unchanged
+ *
+ * @example
+ * ```ts
+ * resolveModuleSpecifier('lit', map, 'https://example.com/app.js');
+ * resolveModuleSpecifier('./util.js', undefined, 'https://example.com/app.js');
+ * ```
+ */
+export function resolveModuleSpecifier(
+  specifier: string,
+  map: IImportMap | undefined,
+  baseUrl: string,
+): string {
+  const url = parseUrlLikeSpecifier(specifier, baseUrl)
+  const normalized = url ?? specifier
+
+  if (map) {
+    const prefixes = Object.keys(map.scopes)
+      .filter(
+        (prefix) => prefix === baseUrl || (prefix.endsWith('/') && baseUrl.startsWith(prefix)),
+      )
+      .sort((a, b) => b.length - a.length)
+    for (const prefix of prefixes) {
+      const address = matchSpecifierMap(normalized, !!url, map.scopes[prefix])
+      if (address !== undefined) {
+        return address
+      }
+    }
+    const address = matchSpecifierMap(normalized, !!url, map.imports)
+    if (address !== undefined) {
+      return address
+    }
+  }
+  return normalized
+}
+
+/**
+ * Rewrite the specifiers of a module's static imports, re-exports and literal dynamic
+ * imports to the URLs they resolve to.
+ *
+ * Matching is textual, so import-like text inside strings or comments may be rewritten too.
+ *
+ * @param code - The module source
+ * @param map - The import map; omit to resolve against the base URL only
+ * @param baseUrl - URL of the module
+ * @returns The rewritten source
+ *
+ * @example
+ * ```ts
+ * rewriteModuleImports(`import { html } from 'lit'`, map, document.baseURI);
+ * // `import { html } from 'https://cdn.example.com/lit.js'`
+ * ```
+ */
+export function rewriteModuleImports(
+  code: string,
+  map: IImportMap | undefined,
+  baseUrl: string,
+): string {
+  const resolve = (specifier: string): string => resolveModuleSpecifier(specifier, map, baseUrl)
+  return code
+    .replace(
+      /(\bimport\b\s*(?:[\w$*{}\s,]+?\s*from\s*)?|\bexport\s*(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*)(['"])([^'"\n]+)\2/g,
+      (_m, head: string, quote: string, specifier: string) =>
+        `${head}${quote}${resolve(specifier)}${quote}`,
+    )
+    .replace(
+      /(\bimport\b\s*\(\s*)(['"])([^'"\n]+)\2/g,
+      (_m, head: string, quote: string, specifier: string) =>
+        `${head}${quote}${resolve(specifier)}${quote}`,
+    )
+}
@@ -0,0 +1,191 @@
+/**
+ * Module Completion Implementation
+ *
+ * This module tells when an inline module script has really finished. Browsers run
+ * inline modules after the current task and keep evaluating them across top-level
+ * `await`, while the `<script>` element reports neither completion nor errors.
+ *
+ * How It Works:
+ * - The module source gets a statement before and after it that call into a registry
+ *   stored on the real document under a global symbol
+ * - Imports are hoisted, so the first statement runs once dependencies are evaluated;
+ *   the last one runs once the module body (including every top-level `await`) is done
+ * - Errors reported on `window` for the document (where inline scripts report theirs)
+ *   are attributed to the module that started last and has not finished; errors of
+ *   other scripts or events dispatched by hand never fail a module
+ * - A module that fails before its body runs (e.g. a syntax error) still fires `load`
+ *   on its `<script>` element, so it fails with the error reported for the document
+ *   while it was pending
+ * - An import that fails to load fires `error` on the `<script>` element instead, and
+ *   the module body never runs
+ *
+ * Modules awaiting at the top level at the same time cannot be told apart: an error
+ * one of them throws after an `await` is attributed to the one that started last.
+ *
+ * Environments that cannot run module scripts (e.g. jsdom) are not tracked, since the
+ * module would never finish.
+ *
+ * @module moduleCompletion
+ */
+
+/**
+ * Global symbol the module registry is stored under on the real document.
+ */
+const MODULE_REGISTRY_KEY = 'shadow-html-renderer.modules'
+
+/**
+ * Registry the instrumented module source reports to.
+ */
+interface IModuleRegistry {
+  /**
+   * Id of the module whose body is being evaluated, if any.
+   */
+  running?: string
+
+  /**
+   * Called by a module before its body runs.
+   */
+  start(id: string): void
+
+  /**
+   * Called by a module after its body has finished.
+   */
+  finish(id: string): void
+}
+
+/**
+ * Modules awaited by `waitForModule`, keyed by id.
+ */
+const pending = new Map<string, { started: boolean; settle: (error?: unknown) => void }>()
+
+/**
+ * Check whether an error event was reported by an inline script of the document.
+ */
+function isDocumentError(e: ErrorEvent): boolean {
+  return e.filename === document.URL
+}
+
+/**
+ * Get the module registry, creating it on first use.
+ */
+function getRegistry(): IModuleRegistry {
+  const holder = document as unknown as Record<symbol, IModuleRegistry>
+  const key = Symbol.for(MODULE_REGISTRY_KEY)
+  holder[key] ??= {
+    start(id) {
+      const run = pending.get(id)
+      if (run) {
+        run.started = true
+        this.running = id
+      }
+    },
+    finish(id) {
+      pending.get(id)?.settle()
+    },
+  }
+  return holder[key]
+}
+
+/**
+ * Check whether inline module completion can be tracked in this environment.
+ *
+ * @returns True when the browser runs module scripts
+ */
+export function canTrackModules(): boolean {
+  return typeof HTMLScriptElement.supports === 'function' && HTMLScriptElement.supports('module')
+}
+
+/**
+ * Instrument module source so it reports when it starts and finishes.
+ *
+ * @param code - The module source
+ * @param id - Id to report under, later passed to `waitForModule`
+ * @returns The instrumented source
+ *
+ * @example
+ * ```ts
+ * script.textContent = trackModuleCode(meta.code ?? '', meta.id);
+ * const done = waitForModule(meta.id, script);
+ * placeholder.replaceWith(script);
+ * await done;
+ * ```
+ */
+export function trackModuleCode(code: string, id: string): string {
+  const lookup = `globalThis.document[Symbol.for(${JSON.stringify(MODULE_REGISTRY_KEY)})]`
+  // The line break keeps a trailing line comment from swallowing the last statement
+  return `${lookup}.start(${JSON.stringify(id)});\n${code}\n;${lookup}.finish(${JSON.stringify(id)});`
+}
+
+/**
+ * Wait for an instrumented module to finish.
+ *
+ * Must be called before the module script is inserted.
+ *
+ * @param id - The id passed to `trackModuleCode`
+ * @param script - The module script element, to notice imports that fail to load
+ * @param signal - Stops waiting when aborted
+ * @returns Promise that resolves once the module finished and rejects with the error
+ *   it threw or the import that failed; it never settles when the signal aborts first
+ */
+export function waitForModule(
+  id: string,
+  script: HTMLScriptElement,
+  signal?: AbortSignal,
+): Promise<void> {
+  const registry = getRegistry()
+
+  return new Promise<void>((resolve, reject) => {
+    const run = {
+      started: false,
+      settle: (error?: unknown): void => {
+        pending.delete(id)
+        window.removeEventListener('error', onError)
+        script.removeEventListener('load', onLoad)
+        script.removeEventListener('error', onLoadError)
+        signal?.removeEventListener('abort', onAbort)
+        if (registry.running === id) {
+          registry.running = undefined
+        }
+        if (error === undefined) {
+          resolve()
+        } else {
+          reject(error)
+        }
+      },
+    }
+
+    // Error reported for the document while the module had not started yet
+    let earlyError: unknown
+    const onError = (e: ErrorEvent): void => {
+      if (!isDocumentError(e)) {
+        return
+      }
+      if (!run.started) {
+        earlyError = e.error ?? new Error(e.message)
+      } else if (registry.running === id) {
+        run.settle(e.error ?? new Error(e.message))
+      }
+    }
+    // Fired once the module was evaluated up to its first top-level `await`
+    const onLoad = (): void => {
+      if (!run.started) {
+        run.settle(earlyError ?? new Error('The module script failed before it ran'))
+      }
+    }
+    const onLoadError = (): void => {
+      run.settle(new Error('Failed to load an import of the module script'))
+    }
+    const onAbort = (): void => {
+      pending.delete(id)
+      window.removeEventListener('error', onError)
+      script.removeEventListener('load', onLoad)
+      script.removeEventListener('error', onLoadError)
+    }
+
+    pending.set(id, run)
+    window.addEventListener('error', onError)
+    script.addEventListener('load', onLoad, { once: true })
+    script.addEventListener('error', onLoadError, { once: true })
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,234 @@
+/**
+ * Render Lifecycle Implementation
+ *
+ * This module models the page lifecycle of rendered content, so scripts that wait
+ * for `DOMContentLoaded` or `load` run even though the host page loaded long ago.
+ *
+ * Lifecycle Order (mirroring the browser):
+ * - readyState is "loading" while sequential scripts run
+ * - readyState becomes "interactive", then defer scripts run
+ * - `DOMContentLoaded` fires on the scoped document (and reaches the scoped window)
+ * - Once async scripts, images and stylesheets settle, readyState becomes "complete"
+ *   and `load` fires on the scoped window
+ *
+ * Events are dispatched on private targets, so listeners of the host page never see them.
+ *
+ * @module renderLifecycle
+ */
+
+/**
+ * Events that scripts listen for on `document` and that are routed to the render lifecycle.
+ */
+export const DOCUMENT_LIFECYCLE_EVENTS = new Set(['DOMContentLoaded', 'readystatechange'])
+
+/**
+ * Events that scripts listen for on `window` and that are routed to the render lifecycle.
+ */
+export const WINDOW_LIFECYCLE_EVENTS = new Set(['DOMContentLoaded', 'load'])
+
+/**
+ * Time limit in ms for the images and stylesheets `load` waits for. A stylesheet that
+ * already failed, for one, never fires `load` or `error` again.
+ */
+export const SUBRESOURCE_TIMEOUT = 5000
+
+/**
+ * Lifecycle state of a single render.
+ */
+export interface IRenderLifecycle {
+  /**
+   * Target for listeners added through the scoped document.
+   */
+  documentTarget: EventTarget
+
+  /**
+   * Target for listeners added through the scoped window.
+   */
+  windowTarget: EventTarget
+
+  /**
+   * The readyState reported by the scoped document.
+   */
+  readyState: DocumentReadyState
+
+  /**
+   * Event handler properties (`onload`, `onreadystatechange`, ...) keyed by target and type.
+   */
+  handlers: Map<EventTarget, Map<string, unknown>>
+}
+
+/**
+ * Create the lifecycle of a new render, in the "loading" state.
+ *
+ * @returns A fresh render lifecycle
+ */
+export function createRenderLifecycle(): IRenderLifecycle {
+  return {
+    documentTarget: new EventTarget(),
+    windowTarget: new EventTarget(),
+    readyState: 'loading',
+    handlers: new Map(),
+  }
+}
+
+/**
+ * Read an event handler property (e.g. `window.onload`) of a lifecycle target.
+ *
+ * @param lifecycle - The render lifecycle
+ * @param target - The lifecycle target the handler belongs to
+ * @param type - The event type, without the "on" prefix
+ * @returns The handler, or null if none was set
+ */
+export function getLifecycleHandler(
+  lifecycle: IRenderLifecycle,
+  target: EventTarget,
+  type: string,
+): unknown {
+  return lifecycle.handlers.get(target)?.get(type) ?? null
+}
+
+/**
+ * Set an event handler property (e.g. `window.onload = fn`) of a lifecycle target.
+ *
+ * Like in the browser, the handler is registered as a listener the first time it is
+ * set, so it runs in order with listeners added before and after it.
+ *
+ * @param lifecycle - The render lifecycle
+ * @param target - The lifecycle target the handler belongs to
+ * @param type - The event type, without the "on" prefix
+ * @param handler - The new handler; non-functions clear it
+ * @param thisArg - The object the handler is called on (the scoped document or window)
+ */
+export function setLifecycleHandler(
+  lifecycle: IRenderLifecycle,
+  target: EventTarget,
+  type: string,
+  handler: unknown,
+  thisArg: unknown,
+): void {
+  let handlers = lifecycle.handlers.get(target)
+  if (!handlers) {
+    handlers = new Map()
+    lifecycle.handlers.set(target, handlers)
+  }
+  if (!handlers.has(type)) {
+    target.addEventListener(type, (event) => {
+      const current = handlers.get(type)
+      if (typeof current === 'function') {
+        current.call(thisArg, event)
+      }
+    })
+  }
+  handlers.set(type, typeof handler === 'function' ? handler : null)
+}
+
+/**
+ * Update the readyState and dispatch `readystatechange` on the scoped document.
+ */
+function setReadyState(lifecycle: IRenderLifecycle, readyState: DocumentReadyState): void {
+  lifecycle.readyState = readyState
+  lifecycle.documentTarget.dispatchEvent(new Event('readystatechange'))
+}
+
+/**
+ * Mark the rendered document as parsed: readyState becomes "interactive".
+ * Called after sequential scripts, before defer scripts run.
+ *
+ * @param lifecycle - The render lifecycle
+ */
+export function markInteractive(lifecycle: IRenderLifecycle): void {
+  if (lifecycle.readyState === 'loading') {
+    setReadyState(lifecycle, 'interactive')
+  }
+}
+
+/**
+ * Dispatch `DOMContentLoaded` on the scoped document, then on the scoped window
+ * (where the bubbling event would arrive in the browser).
+ * Called after defer scripts ran.
+ *
+ * @param lifecycle - The render lifecycle
+ */
+export function dispatchDOMContentLoaded(lifecycle: IRenderLifecycle): void {
+  markInteractive(lifecycle)
+  lifecycle.documentTarget.dispatchEvent(new Event('DOMContentLoaded'))
+  lifecycle.windowTarget.dispatchEvent(new Event('DOMContentLoaded'))
+}
+
+/**
+ * Mark the rendered document as complete and dispatch `load` on the scoped window.
+ * Called after async scripts and subresources settled.
+ *
+ * @param lifecycle - The render lifecycle
+ */
+export function dispatchLoad(lifecycle: IRenderLifecycle): void {
+  if (lifecycle.readyState === 'complete') {
+    return
+  }
+  setReadyState(lifecycle, 'complete')
+  lifecycle.windowTarget.dispatchEvent(new Event('load'))
+}
+
+/**
+ * Check whether an image or stylesheet link is still loading and will report when it is done.
+ *
+ * Lazy images may never load (e.g. off screen or in a hidden host), and disabled
+ * stylesheets are not loaded at all; like in the browser, `load` does not wait for them.
+ */
+function isLoading(el: Element): boolean {
+  if (el instanceof HTMLImageElement) {
+    return (
+      !!el.getAttribute('src') &&
+      !el.complete &&
+      el.getAttribute('loading')?.toLowerCase() !== 'lazy'
+    )
+  }
+  return el instanceof HTMLLinkElement && !el.sheet && !el.hasAttribute('disabled')
+}
+
+/**
+ * Wait until the images and stylesheets inside a root have loaded or failed.
+ *
+ * @param root - The render root
+ * @param signal - Stops waiting when aborted
+ * @param timeout - Time limit in ms, after which subresources still pending are not waited for
+ * @returns Promise that resolves once no subresource is pending, or the time limit ran out
+ */
+export async function waitForSubresources(
+  root: ParentNode,
+  signal?: AbortSignal,
+  timeout = SUBRESOURCE_TIMEOUT,
+): Promise<void> {
+  if (signal?.aborted) {
+    return
+  }
+  const pending = Array.from(root.querySelectorAll('img, link[rel~="stylesheet"]')).filter(
+    isLoading,
+  )
+  if (pending.length === 0) {
+    return
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onAbort = (): void => {}
+  const stopped = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeout)
+    onAbort = resolve
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+  const settled = Promise.all(
+    pending.map(
+      (el) =>
+        new Promise<void>((resolve) => {
+          el.addEventListener('load', () => resolve(), { once: true })
+          el.addEventListener('error', () => resolve(), { once: true })
+        }),
+    ),
+  )
+  try {
+    await Promise.race([settled, stopped])
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Scoped Document Implementation
+ *
+ * This module creates a stand-in for `document` that scripts rendered into a
+ * shadow root can use as if the rendered HTML were the whole page.
+ *
+ * Scoping Rules:
+ * - Query methods (`getElementById`, `querySelector`, ...) search the render root
+ * - `documentElement`, `head` and `body` map to the rendered <html>, <head> and <body>
+ *   (falling back to the real elements when the rendered content has none)
+ * - With a render lifecycle, `readyState` and the `DOMContentLoaded`/`readystatechange`
+ *   listeners belong to the render instead of the host page
+ * - With a side effect tracker, other listeners added to the document are recorded
+ * - Everything else reads from and writes to the real document
+ *
+ * @module scopedDocument
+ */
+
+import {
+  addTrackedListener,
+  removeTrackedListener,
+  type ISideEffectTracker,
+} from './sideEffectTracker'
+import {
+  DOCUMENT_LIFECYCLE_EVENTS,
+  getLifecycleHandler,
+  setLifecycleHandler,
+  type IRenderLifecycle,
+} from './renderLifecycle'
+
+/**
+ * Options for `createScopedDocument`.
+ */
+export interface IScopedDocumentOptions {
+  /**
+   * Resolve queries and structural elements against the render root.
+   *
+   * @default true
+   */
+  scopeQueries?: boolean
+
+  /**
+   * Lifecycle of the render; when set, `readyState` and lifecycle listeners are scoped to it.
+   */
+  lifecycle?: IRenderLifecycle
+
+  /**
+   * Tracker that records listeners added to the document, for teardown.
+   */
+  tracker?: ISideEffectTracker
+}
+
+/**
+ * Find the first element with the given id inside a root.
+ */
+function findById(root: ParentNode, id: string): Element | null {
+  return Array.from(root.querySelectorAll('[id]')).find((el) => el.id === id) ?? null
+}
+
+/**
+ * Find the elements that have all of the given class names inside a root.
+ */
+function findByClassNames(root: ParentNode, classNames: string): Element[] {
+  const names = classNames.split(/\s+/).filter(Boolean)
+  if (names.length === 0) {
+    return []
+  }
+  return Array.from(root.querySelectorAll('[class]')).filter((el) =>
+    names.every((name) => el.classList.contains(name)),
+  )
+}
+
+/**
+ * Create a `document` proxy whose queries and structural elements resolve
+ * against a render root instead of the host page.
+ *
+ * The `getElementsBy*` methods return static lists instead of live collections.
+ * Methods of the real document are bound to it, so they keep working when called
+ * through the proxy. The proxy itself is not a Node, so it cannot be passed to
+ * native APIs that expect one (e.g. `MutationObserver.observe`).
+ *
+ * @param root - The shadow root (or element) the scripts were rendered into
+ * @param options - What to scope besides the real document
+ * @returns A proxy that can be used in place of `document`
+ *
+ * @example
+ * ```ts
+ * const scopedDocument = createScopedDocument(shadowRoot);
+ * scopedDocument.getElementById('app'); // searches the shadow tree
+ * scopedDocument.title; // reads the host page's title
+ * ```
+ */
+export function createScopedDocument(
+  root: ParentNode,
+  options: IScopedDocumentOptions = {},
+): Document {
+  const { scopeQueries = true, lifecycle, tracker } = options
+  const overrides: Record<string, unknown> = {}
+  const structure: Record<string, () => Element | null> = {}
+
+  if (scopeQueries) {
+    Object.assign(overrides, {
+      getElementById: (id: string) => findById(root, String(id)),
+      querySelector: (selectors: string) => root.querySelector(selectors),
+      querySelectorAll: (selectors: string) => root.querySelectorAll(selectors),
+      getElementsByTagName: (name: string) => Array.from(root.querySelectorAll(name)),
+      getElementsByClassName: (names: string) => findByClassNames(root, String(names)),
+      getElementsByName: (name: string) =>
+        Array.from(root.querySelectorAll('[name]')).filter(
+          (el) => el.getAttribute('name') === String(name),
+        ),
+    })
+    Object.assign(structure, {
+      documentElement: () => root.querySelector('html'),
+      head: () => root.querySelector('head'),
+      body: () => root.querySelector('body'),
+    })
+  }
+
+  if (lifecycle || tracker) {
+    const isLifecycleEvent = (type: string): boolean =>
+      !!lifecycle && DOCUMENT_LIFECYCLE_EVENTS.has(type)
+    Object.assign(overrides, {
+      addEventListener: (
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        opts?: boolean | AddEventListenerOptions,
+      ) => {
+        if (isLifecycleEvent(type)) {
+          lifecycle!.documentTarget.addEventListener(type, listener, opts)
+        } else if (tracker) {
+          addTrackedListener(tracker, document, type, listener, opts)
+        } else {
+          ;(document as EventTarget).addEventListener(type, listener, opts)
+        }
+      },
+      removeEventListener: (
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        opts?: boolean | EventListenerOptions,
+      ) => {
+        if (isLifecycleEvent(type)) {
+          lifecycle!.documentTarget.removeEventListener(type, listener, opts)
+        } else if (tracker) {
+          removeTrackedListener(tracker, document, type, listener, opts)
+        } else {
+          ;(document as EventTarget).removeEventListener(type, listener, opts)
+        }
+      },
+    })
+  }
+
+  // Bound methods are cached so repeated reads return the same function
+  const bound = new WeakMap<object, unknown>()
+
+  const proxy: Document = new Proxy(document, {
+    get(target, prop) {
+      if (lifecycle && prop === 'readyState') {
+        return lifecycle.readyState
+      }
+      if (lifecycle && prop === 'onreadystatechange') {
+        return getLifecycleHandler(lifecycle, lifecycle.documentTarget, 'readystatechange')
+      }
+      if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(overrides, prop)) {
+        return overrides[prop]
+      }
+      if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(structure, prop)) {
+        return structure[prop]() ?? Reflect.get(target, prop, target)
+      }
+
+      const value = Reflect.get(target, prop, target)
+      if (typeof value !== 'function') {
+        return value
+      }
+      let fn = bound.get(value)
+      if (!fn) {
+        fn = value.bind(target)
+        bound.set(value, fn)
+      }
+      return fn
+    },
+    set(target, prop, value) {
+      if (lifecycle && prop === 'onreadystatechange') {
+        setLifecycleHandler(lifecycle, lifecycle.documentTarget, 'readystatechange', value, proxy)
+        return true
+      }
+      return Reflect.set(target, prop, value, target)
+    },
+  })
+  return proxy
+}
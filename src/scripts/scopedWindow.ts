@@ -0,0 +1,141 @@
+/**
+ * Scoped Window Implementation
+ *
+ * This module creates a stand-in for `window` that hands out the scoped document
+ * and, when a render lifecycle is attached, scopes the `load` and `DOMContentLoaded`
+ * listeners of rendered scripts to that render. With a side effect tracker attached,
+ * timers, listeners and new properties are recorded for teardown.
+ *
+ * Scoping Rules:
+ * - `window.document` is the scoped document
+ * - `window.window` and `window.self` are the proxy itself
+ * - `addEventListener`/`removeEventListener` for lifecycle events and `onload`
+ *   use the render lifecycle
+ * - Everything else reads from and writes to the real window, so globals
+ *   assigned through `window.foo = ...` stay global
+ *
+ * @module scopedWindow
+ */
+
+import {
+  addTrackedListener,
+  createTrackedTimers,
+  removeTrackedListener,
+  type ISideEffectTracker,
+} from './sideEffectTracker'
+import {
+  WINDOW_LIFECYCLE_EVENTS,
+  getLifecycleHandler,
+  setLifecycleHandler,
+  type IRenderLifecycle,
+} from './renderLifecycle'
+
+/**
+ * Options for `createScopedWindow`.
+ */
+export interface IScopedWindowOptions {
+  /**
+   * Lifecycle of the render; when set, `load`/`DOMContentLoaded` listeners and
+   * `onload` are scoped to it.
+   */
+  lifecycle?: IRenderLifecycle
+
+  /**
+   * Tracker that records timers, listeners and new properties for teardown.
+   */
+  tracker?: ISideEffectTracker
+}
+
+/**
+ * Create a `window` proxy that exposes a scoped document.
+ *
+ * @param scopedDocument - The document the proxy hands out as `window.document`
+ * @param options - Lifecycle and side effect tracking of the render
+ * @returns A proxy that can be used in place of `window`
+ *
+ * @example
+ * ```ts
+ * const scopedWindow = createScopedWindow(createScopedDocument(shadowRoot));
+ * const trackedWindow = createScopedWindow(document, { tracker: createSideEffectTracker() });
+ * scopedWindow.document.getElementById('app'); // searches the shadow tree
+ * ```
+ */
+export function createScopedWindow(
+  scopedDocument: Document,
+  options: IScopedWindowOptions = {},
+): Window & typeof globalThis {
+  const { lifecycle, tracker } = options
+  const isLifecycleEvent = (type: string): boolean =>
+    !!lifecycle && WINDOW_LIFECYCLE_EVENTS.has(type)
+
+  const overrides: Record<string, unknown> = {
+    ...(tracker && createTrackedTimers(tracker)),
+    document: scopedDocument,
+    addEventListener: (
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      opts?: boolean | AddEventListenerOptions,
+    ) => {
+      if (isLifecycleEvent(type)) {
+        lifecycle!.windowTarget.addEventListener(type, listener, opts)
+      } else if (tracker) {
+        addTrackedListener(tracker, window, type, listener, opts)
+      } else {
+        ;(window as EventTarget).addEventListener(type, listener, opts)
+      }
+    },
+    removeEventListener: (
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      opts?: boolean | EventListenerOptions,
+    ) => {
+      if (isLifecycleEvent(type)) {
+        lifecycle!.windowTarget.removeEventListener(type, listener, opts)
+      } else if (tracker) {
+        removeTrackedListener(tracker, window, type, listener, opts)
+      } else {
+        ;(window as EventTarget).removeEventListener(type, listener, opts)
+      }
+    },
+  }
+
+  // Bound methods are cached so repeated reads return the same function
+  const bound = new WeakMap<object, unknown>()
+
+  const proxy: Window & typeof globalThis = new Proxy(window, {
+    get(target, prop) {
+      if (prop === 'window' || prop === 'self') {
+        return proxy
+      }
+      if (lifecycle && prop === 'onload') {
+        return getLifecycleHandler(lifecycle, lifecycle.windowTarget, 'load')
+      }
+      if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(overrides, prop)) {
+        return overrides[prop]
+      }
+
+      const value = Reflect.get(target, prop, target)
+      // Constructors (e.g. `new window.Event()`) must stay unbound
+      if (typeof value !== 'function' || /^[A-Z]/.test(String(prop))) {
+        return value
+      }
+      let fn = bound.get(value)
+      if (!fn) {
+        fn = value.bind(target)
+        bound.set(value, fn)
+      }
+      return fn
+    },
+    set(target, prop, value) {
+      if (lifecycle && prop === 'onload') {
+        setLifecycleHandler(lifecycle, lifecycle.windowTarget, 'load', value, proxy)
+        return true
+      }
+      if (tracker && typeof prop === 'string' && !Reflect.has(target, prop)) {
+        tracker.globals.add(prop)
+      }
+      return Reflect.set(target, prop, value, target)
+    },
+  })
+  return proxy
+}
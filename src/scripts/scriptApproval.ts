@@ -0,0 +1,101 @@
+/**
+ * Script Approval Implementation
+ *
+ * This module consults `IHtmlRendererOptions.beforeScriptExecute` before a rendered
+ * script runs, so the application can decide at runtime which scripts may execute
+ * and adjust them on the way (e.g. allow its own CDN, block trackers, rewrite a
+ * legacy call).
+ *
+ * Decisions:
+ * - `true` or nothing: the script runs as written
+ * - `false`: the script is skipped
+ * - An `IScriptOverride`: the script runs with replaced code, `src` or attributes
+ *
+ * The hook may be async; later scripts wait for the decision like they wait for the
+ * script itself.
+ *
+ * @module scriptApproval
+ */
+
+import type {
+  IHtmlRendererOptions,
+  IScriptMeta,
+  IScriptOverride,
+  ScriptDecision,
+} from '../extras/types'
+
+/**
+ * Apply an override returned by `beforeScriptExecute` to a script.
+ *
+ * @param meta - Script metadata object
+ * @param override - Replacements for the script's code, `src` and attributes
+ * @returns Metadata of the script to run, with flags derived from the new attributes
+ *
+ * @example
+ * ```ts
+ * applyScriptOverride(meta, { src: 'https://cdn.example.com/analytics-v2.js' });
+ * applyScriptOverride(meta, { code: 'track()', attrs: { nonce: null } });
+ * ```
+ */
+export function applyScriptOverride(meta: IScriptMeta, override: IScriptOverride): IScriptMeta {
+  const attrs = { ...meta.attrs }
+  for (const [k, v] of Object.entries(override.attrs ?? {})) {
+    if (v === null) {
+      delete attrs[k]
+    } else {
+      attrs[k] = v
+    }
+  }
+  if (override.src !== undefined) {
+    attrs['src'] = override.src
+  }
+
+  // New code turns an external script into an inline one; its integrity no longer applies
+  let code = meta.code
+  if (override.code !== undefined) {
+    delete attrs['src']
+    delete attrs['integrity']
+    code = override.code
+  }
+  const hasSrc = !!attrs['src']
+
+  return {
+    ...meta,
+    attrs,
+    code: hasSrc ? null : (code ?? ''),
+    hasSrc,
+    isAsync: 'async' in attrs,
+    isDefer: 'defer' in attrs,
+    isModule: (attrs['type'] || '').trim().toLowerCase() === 'module',
+  }
+}
+
+/**
+ * Ask `options.beforeScriptExecute` whether and how a script may run.
+ *
+ * @param meta - Script metadata object
+ * @param options - Renderer options
+ * @returns Metadata of the script to run (the input itself when it runs as written),
+ *   or null when the script is skipped
+ * @throws Whatever the hook throws; the script is then reported as failed
+ */
+export async function approveScript(
+  meta: IScriptMeta,
+  options: IHtmlRendererOptions,
+): Promise<IScriptMeta | null> {
+  if (!options.beforeScriptExecute) {
+    return meta
+  }
+  // The hook gets a copy, so changes only apply through its decision
+  const decision: ScriptDecision = await options.beforeScriptExecute({
+    ...meta,
+    attrs: { ...meta.attrs },
+  })
+  if (decision === false) {
+    return null
+  }
+  if (decision === true || decision === undefined) {
+    return meta
+  }
+  return applyScriptOverride(meta, decision)
+}
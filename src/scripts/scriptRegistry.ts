@@ -0,0 +1,152 @@
+/**
+ * Script Registry Implementation
+ *
+ * This module keeps track of the external scripts rendered content has loaded, so a
+ * library included by many renders (e.g. ten widgets that each bring jQuery) is
+ * downloaded and executed once instead of clobbering its own globals every time.
+ *
+ * How It Works:
+ * - Scripts are keyed by their resolved URL and `integrity`; the registry is shared by
+ *   every render on the page
+ * - The first render to reach a script claims it and loads it; renders reaching it
+ *   later wait for that load and skip the script once it succeeded
+ * - When the load fails or times out, the claim is released and the next render
+ *   loads the script itself
+ * - When the render that claimed a script is aborted while its element is loading,
+ *   the claim is kept until that element loaded or failed, since it may still run
+ * - Scripts already in the page's document (`document.scripts`) count as loaded
+ *
+ * Deduplication is opt-in through `IHtmlRendererOptions.dedupeScripts`; a script's
+ * `data-dedupe` attribute overrides the option either way.
+ *
+ * @module scriptRegistry
+ */
+
+import { isScopableScript } from './scriptScope'
+import type { IHtmlRendererOptions, IScriptMeta } from '../extras/types'
+
+/**
+ * Loads of every claimed script, keyed by URL and integrity; each resolves with
+ * whether the script loaded.
+ */
+const registry = new Map<string, Promise<boolean>>()
+
+/**
+ * Keys of every script a render claimed at some point. The page is only searched for
+ * scripts no render loaded, since a failed render's element stays in the page.
+ */
+const claimed = new Set<string>()
+
+/**
+ * Build the registry key of a script.
+ */
+function getScriptKey(url: string, integrity: string): string {
+  return `${url} ${integrity}`
+}
+
+/**
+ * Check whether an external script takes part in deduplication.
+ *
+ * @param meta - Script metadata object
+ * @param options - Renderer options
+ * @returns True when the script has a `src` and `data-dedupe` or
+ *   `options.dedupeScripts` enables deduplication for it
+ */
+export function shouldDedupeScript(meta: IScriptMeta, options: IHtmlRendererOptions): boolean {
+  if (!meta.hasSrc || !meta.attrs['src'] || !isScopableScript(meta)) {
+    return false
+  }
+  const attr = meta.attrs['data-dedupe']
+  if (attr !== undefined) {
+    return attr.trim().toLowerCase() !== 'false'
+  }
+  return !!options.dedupeScripts
+}
+
+/**
+ * Check whether the page's document contains a script with this URL and integrity.
+ */
+function isLoadedByPage(url: string, integrity: string): boolean {
+  return Array.from(document.scripts).some((s) => s.src === url && s.integrity === integrity)
+}
+
+/**
+ * Check whether a script was loaded or claimed already, so fetching it ahead of time
+ * would be wasted.
+ *
+ * @param url - The absolute URL of the script
+ * @param integrity - The script's `integrity` attribute, if any
+ * @returns True when a render claimed the script or the page contains it
+ */
+export function isScriptRegistered(url: string, integrity = ''): boolean {
+  const key = getScriptKey(url, integrity)
+  return registry.has(key) || (!claimed.has(key) && isLoadedByPage(url, integrity))
+}
+
+/**
+ * Claim an external script for loading, or wait until an earlier claim loaded it.
+ *
+ * @param url - The absolute URL of the script
+ * @param integrity - The script's `integrity` attribute, if any
+ * @param signal - Stops waiting for an earlier claim when aborted
+ * @returns A function to call with whether the load succeeded (or a promise of it) when
+ *   this caller should load the script; null when the script is already loaded (or the
+ *   signal aborted)
+ *
+ * @example
+ * ```ts
+ * const finish = await acquireScript(url, meta.attrs.integrity, signal);
+ * if (finish) {
+ *   const result = await loadScript(url);
+ *   finish(result.status === 'executed');
+ * }
+ * ```
+ */
+export async function acquireScript(
+  url: string,
+  integrity = '',
+  signal?: AbortSignal,
+): Promise<((loaded: boolean | Promise<boolean>) => void) | null> {
+  const key = getScriptKey(url, integrity)
+  for (let pending = registry.get(key); pending; pending = registry.get(key)) {
+    const loaded = await new Promise<boolean>((resolve) => {
+      const onAbort = (): void => resolve(true)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      pending.then((value) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(value)
+      })
+    })
+    if (loaded || signal?.aborted) {
+      return null
+    }
+  }
+  if (!claimed.has(key) && isLoadedByPage(url, integrity)) {
+    registry.set(key, Promise.resolve(true))
+    return null
+  }
+
+  let finish!: (loaded: boolean | Promise<boolean>) => void
+  const load = new Promise<boolean>((resolve) => {
+    finish = (loaded) => {
+      void Promise.resolve(loaded).then((value) => {
+        if (!value && registry.get(key) === load) {
+          registry.delete(key)
+        }
+        resolve(value)
+      })
+    }
+  })
+  registry.set(key, load)
+  claimed.add(key)
+  return finish
+}
+
+/**
+ * Forget every script rendered content has loaded, so they are loaded again by the
+ * next renders that include them.
+ */
+export function clearScriptRegistry(): void {
+  registry.clear()
+  claimed.clear()
+}
@@ -0,0 +1,271 @@
+/**
+ * Script Scope Implementation
+ *
+ * This module lets rendered scripts run against per-render bindings (a scoped
+ * `document` and `window`) instead of the page globals, without changing the
+ * script source beyond a small wrapper.
+ *
+ * How It Works:
+ * - Each render gets a scope: an id, an object of bindings and, with lifecycle
+ *   events enabled, the render lifecycle
+ * - Scopes are registered on the real document under a global symbol, which is
+ *   reachable from script code in any realm
+ * - Classic scripts are wrapped in `with (bindings) { ... }`, so only the bound
+ *   names are redirected and `var`/function declarations stay global
+ * - Module scripts (strict mode, no `with`) get a destructuring prologue instead
+ *
+ * @module scriptScope
+ */
+
+import { uid } from '../extras/utils'
+import { clearImportMap } from './importMap'
+import { createRenderLifecycle, type IRenderLifecycle } from './renderLifecycle'
+import { createScopedDocument } from './scopedDocument'
+import { createScopedWindow } from './scopedWindow'
+import {
+  createSideEffectTracker,
+  disposeSideEffects,
+  type ISideEffectTracker,
+} from './sideEffectTracker'
+import type { IHtmlRendererOptions, IScriptMeta } from '../extras/types'
+
+/**
+ * Global symbol the scope registry is stored under on the real document.
+ */
+const SCOPE_REGISTRY_KEY = 'shadow-html-renderer.scopes'
+
+/**
+ * Bindings and registry id of a render's script scope.
+ */
+export interface IScriptScope {
+  /**
+   * Id the scope is registered under.
+   */
+  id: string
+
+  /**
+   * Names visible to the wrapped scripts instead of the page globals.
+   */
+  bindings: Record<string, unknown>
+
+  /**
+   * Lifecycle of the render, when lifecycle events are enabled.
+   */
+  lifecycle?: IRenderLifecycle
+
+  /**
+   * Side effects of the render's scripts, when side effect tracking is enabled.
+   */
+  tracker?: ISideEffectTracker
+
+  /**
+   * Script elements that ran in the scope, to tell when it can be released.
+   */
+  scripts: Set<Element>
+}
+
+/**
+ * Script types browsers execute as classic scripts (besides an empty type).
+ */
+const CLASSIC_SCRIPT_TYPES = new Set([
+  'text/javascript',
+  'application/javascript',
+  'application/ecmascript',
+  'application/x-javascript',
+  'text/ecmascript',
+  'text/jscript',
+])
+
+/**
+ * Timer globals that are replaced by tracked versions when side effects are tracked.
+ */
+const TIMER_GLOBALS = [
+  'setTimeout',
+  'clearTimeout',
+  'setInterval',
+  'clearInterval',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+]
+
+/**
+ * Live scopes of every root that runs scoped scripts; the last one belongs to the
+ * current render.
+ */
+const scopes = new WeakMap<ParentNode, IScriptScope[]>()
+
+/**
+ * Get the scope registry, creating it on first use.
+ */
+function getRegistry(): Map<string, Record<string, unknown>> {
+  const holder = document as unknown as Record<symbol, Map<string, Record<string, unknown>>>
+  const key = Symbol.for(SCOPE_REGISTRY_KEY)
+  holder[key] ??= new Map()
+  return holder[key]
+}
+
+/**
+ * Check whether the options require scripts to run in a script scope.
+ *
+ * @param options - Renderer options
+ * @returns True when scripts must be wrapped
+ */
+export function needsScriptScope(options: IHtmlRendererOptions): boolean {
+  return !!(options.scopedDocument || options.lifecycleEvents || options.trackSideEffects)
+}
+
+/**
+ * Start a fresh script scope for a new render of a root.
+ *
+ * Listeners registered by earlier renders stay on their own lifecycle, so a
+ * re-render never fires them again. The previous scopes are released (tearing down
+ * their tracked side effects) unless `keepPrevious` is set, which morphing updates
+ * use because the scripts of earlier renders stay live (see `pruneScriptScopes`).
+ *
+ * @param root - The shadow root (or element) the scripts are rendered into
+ * @param options - Renderer options
+ * @param keepPrevious - Keep the scopes of earlier renders alive
+ * @returns The new scope, or undefined when the options need no scope
+ */
+export function beginScriptScope(
+  root: ParentNode,
+  options: IHtmlRendererOptions,
+  keepPrevious = false,
+): IScriptScope | undefined {
+  if (!keepPrevious) {
+    releaseScriptScope(root)
+  }
+  if (!needsScriptScope(options)) {
+    return undefined
+  }
+
+  const lifecycle = options.lifecycleEvents ? createRenderLifecycle() : undefined
+  const tracker = options.trackSideEffects ? createSideEffectTracker() : undefined
+  const scopedDocument = createScopedDocument(root, {
+    scopeQueries: !!options.scopedDocument,
+    lifecycle,
+    tracker,
+  })
+  const scopedWindow = createScopedWindow(scopedDocument, { lifecycle, tracker })
+  const bindings: Record<string, unknown> = {
+    document: scopedDocument,
+    window: scopedWindow,
+    self: scopedWindow,
+    addEventListener: scopedWindow.addEventListener,
+    removeEventListener: scopedWindow.removeEventListener,
+  }
+  if (tracker) {
+    for (const name of TIMER_GLOBALS) {
+      const timer = Reflect.get(scopedWindow, name)
+      if (typeof timer === 'function') {
+        bindings[name] = timer
+      }
+    }
+  }
+
+  const scope: IScriptScope = { id: uid(), bindings, lifecycle, tracker, scripts: new Set() }
+  scopes.set(root, [...(scopes.get(root) ?? []), scope])
+  getRegistry().set(scope.id, scope.bindings)
+  return scope
+}
+
+/**
+ * Get the script scope of the current render of a root, starting one if needed.
+ *
+ * @param root - The shadow root (or element) the scripts are rendered into
+ * @param options - Renderer options, used when a scope has to be started
+ * @returns The root's current script scope, or undefined when the options need no scope
+ */
+export function getScriptScope(
+  root: ParentNode,
+  options: IHtmlRendererOptions,
+): IScriptScope | undefined {
+  const list = scopes.get(root)
+  // There is no scope to release, and the root's import maps must survive
+  return list?.[list.length - 1] ?? beginScriptScope(root, options, true)
+}
+
+/**
+ * Unregister a scope and tear down the side effects it tracked.
+ */
+function disposeScope(scope: IScriptScope): void {
+  getRegistry().delete(scope.id)
+  if (scope.tracker) {
+    disposeSideEffects(scope.tracker)
+  }
+}
+
+/**
+ * Release the scopes of a root none of whose scripts is still in the root, e.g. after
+ * a morphing update removed them, so repeated updates do not keep a scope per update
+ * alive. Scopes with live scripts keep their bindings and side effects.
+ *
+ * @param root - The render root whose scopes should be checked
+ */
+export function pruneScriptScopes(root: ParentNode): void {
+  const list = scopes.get(root)
+  if (!list) {
+    return
+  }
+  const live = list.filter((scope) =>
+    Array.from(scope.scripts).some((script) => root.contains(script)),
+  )
+  for (const scope of list) {
+    if (!live.includes(scope)) {
+      disposeScope(scope)
+    }
+  }
+  scopes.set(root, live)
+}
+
+/**
+ * Release every script scope of a render root: unregister it and tear down the
+ * side effects it tracked. The root's import maps are forgotten as well.
+ *
+ * Scripts that already ran keep their bindings; scripts inserted later get a new scope.
+ *
+ * @param root - The render root whose scopes should be released
+ */
+export function releaseScriptScope(root: ParentNode): void {
+  for (const scope of scopes.get(root) ?? []) {
+    disposeScope(scope)
+  }
+  scopes.delete(root)
+  clearImportMap(root)
+}
+
+/**
+ * Check whether a script is JavaScript that can be wrapped in a scope.
+ * Data blocks (JSON, templates, import maps, ...) must be left untouched.
+ *
+ * @param meta - Script metadata object
+ * @returns True for classic and module scripts
+ */
+export function isScopableScript(meta: IScriptMeta): boolean {
+  const type = (meta.attrs['type'] ?? '').trim().toLowerCase()
+  return meta.isModule || type === '' || CLASSIC_SCRIPT_TYPES.has(type)
+}
+
+/**
+ * Wrap script source so it runs against a scope's bindings.
+ *
+ * @param code - The original script source
+ * @param scope - The scope to bind
+ * @param isModule - Whether the code is a module script
+ * @returns The wrapped source
+ *
+ * @example
+ * ```ts
+ * const scope = getScriptScope(shadowRoot);
+ * script.textContent = wrapScriptCode(meta.code ?? '', scope, meta.isModule);
+ * ```
+ */
+export function wrapScriptCode(code: string, scope: IScriptScope, isModule: boolean): string {
+  const lookup = `globalThis.document[Symbol.for(${JSON.stringify(SCOPE_REGISTRY_KEY)})].get(${JSON.stringify(scope.id)})`
+  if (isModule) {
+    // Module code is strict, so the bindings become module-level constants
+    return `const { ${Object.keys(scope.bindings).join(', ')} } = ${lookup};\n${code}`
+  }
+  // The line break keeps a trailing line comment from swallowing the closing brace
+  return `with (${lookup}) {\n${code}\n}`
+}
@@ -0,0 +1,65 @@
+/**
+ * Script-Disabled Rendering
+ *
+ * This module prepares parsed content for `IHtmlRendererOptions.scripts: "none"`, e.g.
+ * for previews, moderation queues or print, so nothing in it can execute and it looks
+ * like a browser with scripting disabled would show it.
+ *
+ * What Changes:
+ * - `<noscript>` elements are replaced by their content; where the HTML was parsed with
+ *   scripting enabled (`innerHTML` in the live document), that content is raw text and
+ *   is parsed first. Content of documents built by DOMParser is already parsed, so it
+ *   is only unwrapped and escaped text stays text
+ * - `<script>` elements are dropped, including those a `<noscript>` contained
+ * - Inline `on*` event handlers and `javascript:` URLs are removed
+ * - Frames are sandboxed without `allow-scripts`
+ *
+ * Renderers run this before sanitizing and applying the resource policy, so promoted
+ * content goes through both.
+ *
+ * @module scriptlessMode
+ */
+
+import { toTrustedHTML } from '../extras/csp'
+import { neutralizeScriptAttributes } from '../extras/sanitizer'
+import type { IHtmlRendererOptions } from '../extras/types'
+
+/**
+ * Replace each `<noscript>` element with its content.
+ */
+function promoteNoscriptContent(container: ParentNode, options: IHtmlRendererOptions): void {
+  for (const noscript of Array.from(container.querySelectorAll('noscript'))) {
+    if (noscript.children.length > 0 || noscript.ownerDocument !== document) {
+      noscript.replaceWith(...Array.from(noscript.childNodes))
+      continue
+    }
+    // Template contents are inert: nothing in them loads or runs while parsing
+    const template = document.createElement('template')
+    template.innerHTML = toTrustedHTML(noscript.textContent || '', options)
+    noscript.replaceWith(template.content)
+  }
+}
+
+/**
+ * Make parsed content safe to render with scripting disabled.
+ *
+ * @param container - The parsed content
+ * @param options - Renderer options
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * disableScripting(doc.documentElement, { scripts: 'none' });
+ * ```
+ */
+export function disableScripting(container: ParentNode, options: IHtmlRendererOptions): void {
+  promoteNoscriptContent(container, options)
+  for (const script of Array.from(container.querySelectorAll('script'))) {
+    script.remove()
+  }
+  neutralizeScriptAttributes(container)
+  for (const frame of Array.from(container.querySelectorAll('iframe, frame'))) {
+    const tokens = (frame.getAttribute('sandbox') || '').split(/\s+/)
+    frame.setAttribute('sandbox', tokens.filter((t) => t && t !== 'allow-scripts').join(' '))
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Side Effect Tracker Implementation
+ *
+ * This module records the side effects rendered scripts leave on the page, so they
+ * can be torn down when the content is cleared or re-rendered.
+ *
+ * Tracked Side Effects:
+ * - Timeouts, intervals and animation frames scheduled through the scoped globals
+ * - Event listeners added to the scoped `window` and `document`
+ * - Properties added to `window`, both through the scoped window and by top-level
+ *   declarations of the scripts themselves
+ *
+ * After disposal, tracked timers and listeners can no longer be registered, so
+ * callbacks that were already running cannot schedule new work.
+ *
+ * @module sideEffectTracker
+ */
+
+/**
+ * An event listener registered by a rendered script.
+ */
+interface ITrackedListener {
+  target: EventTarget
+  type: string
+  listener: EventListenerOrEventListenerObject
+  options?: boolean | EventListenerOptions
+}
+
+/**
+ * Side effects recorded for a single render.
+ */
+export interface ISideEffectTracker {
+  /**
+   * Pending timeouts.
+   */
+  timeouts: Set<number>
+
+  /**
+   * Active intervals.
+   */
+  intervals: Set<number>
+
+  /**
+   * Pending animation frames.
+   */
+  frames: Set<number>
+
+  /**
+   * Listeners still registered.
+   */
+  listeners: ITrackedListener[]
+
+  /**
+   * Names of `window` properties created by the scripts.
+   */
+  globals: Set<string>
+
+  /**
+   * Whether the side effects were torn down.
+   */
+  disposed: boolean
+}
+
+/**
+ * Create an empty side effect tracker.
+ *
+ * @returns A fresh tracker
+ */
+export function createSideEffectTracker(): ISideEffectTracker {
+  return {
+    timeouts: new Set(),
+    intervals: new Set(),
+    frames: new Set(),
+    listeners: [],
+    globals: new Set(),
+    disposed: false,
+  }
+}
+
+/**
+ * Create timer functions that record what they schedule.
+ *
+ * @param tracker - The tracker to record into
+ * @returns Replacements for the window timer functions, keyed by name
+ */
+export function createTrackedTimers(tracker: ISideEffectTracker): Record<string, unknown> {
+  const timers: Record<string, unknown> = {
+    setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+      if (tracker.disposed) {
+        return 0
+      }
+      const run =
+        typeof handler === 'function'
+          ? (...params: unknown[]) => {
+              tracker.timeouts.delete(id)
+              handler(...params)
+            }
+          : handler
+      const id = window.setTimeout(run, timeout, ...args)
+      tracker.timeouts.add(id)
+      return id
+    },
+    clearTimeout: (id?: number) => {
+      tracker.timeouts.delete(id!)
+      window.clearTimeout(id)
+    },
+    setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+      if (tracker.disposed) {
+        return 0
+      }
+      const id = window.setInterval(handler, timeout, ...args)
+      tracker.intervals.add(id)
+      return id
+    },
+    clearInterval: (id?: number) => {
+      tracker.intervals.delete(id!)
+      window.clearInterval(id)
+    },
+  }
+
+  // Not every environment implements animation frames
+  if (typeof window.requestAnimationFrame === 'function') {
+    timers.requestAnimationFrame = (callback: FrameRequestCallback) => {
+      if (tracker.disposed) {
+        return 0
+      }
+      const id = window.requestAnimationFrame((time) => {
+        tracker.frames.delete(id)
+        callback(time)
+      })
+      tracker.frames.add(id)
+      return id
+    }
+    timers.cancelAnimationFrame = (id: number) => {
+      tracker.frames.delete(id)
+      window.cancelAnimationFrame(id)
+    }
+  }
+
+  return timers
+}
+
+/**
+ * Add an event listener and record it.
+ *
+ * @param tracker - The tracker to record into
+ * @param target - The real event target
+ * @param type - The event type
+ * @param listener - The listener
+ * @param options - Listener options
+ */
+export function addTrackedListener(
+  tracker: ISideEffectTracker,
+  target: EventTarget,
+  type: string,
+  listener: EventListenerOrEventListenerObject | null,
+  options?: boolean | AddEventListenerOptions,
+): void {
+  if (!listener || tracker.disposed) {
+    return
+  }
+  target.addEventListener(type, listener, options)
+  tracker.listeners.push({ target, type, listener, options })
+}
+
+/**
+ * Remove an event listener and forget it.
+ *
+ * @param tracker - The tracker the listener was recorded in
+ * @param target - The real event target
+ * @param type - The event type
+ * @param listener - The listener
+ * @param options - Listener options
+ */
+export function removeTrackedListener(
+  tracker: ISideEffectTracker,
+  target: EventTarget,
+  type: string,
+  listener: EventListenerOrEventListenerObject | null,
+  options?: boolean | EventListenerOptions,
+): void {
+  if (!listener) {
+    return
+  }
+  target.removeEventListener(type, listener, options)
+  const capture = typeof options === 'boolean' ? options : !!options?.capture
+  tracker.listeners = tracker.listeners.filter(
+    (l) =>
+      !(
+        l.target === target &&
+        l.type === type &&
+        l.listener === listener &&
+        (typeof l.options === 'boolean' ? l.options : !!l.options?.capture) === capture
+      ),
+  )
+}
+
+/**
+ * Take a snapshot of the current `window` property names.
+ *
+ * @returns The property names
+ */
+export function snapshotGlobals(): Set<string> {
+  return new Set(Object.getOwnPropertyNames(window))
+}
+
+/**
+ * Record the `window` properties created since a snapshot.
+ *
+ * @param tracker - The tracker to record into
+ * @param before - Snapshot taken before the script ran
+ */
+export function recordNewGlobals(tracker: ISideEffectTracker, before: Set<string>): void {
+  for (const name of Object.getOwnPropertyNames(window)) {
+    if (!before.has(name)) {
+      tracker.globals.add(name)
+    }
+  }
+}
+
+/**
+ * Tear down everything a tracker recorded: clear timers, cancel animation frames,
+ * remove listeners and delete the created `window` properties.
+ *
+ * Globals declared with `var` or `function` cannot be deleted; they are set to
+ * undefined instead so their values can be garbage collected.
+ *
+ * @param tracker - The tracker to dispose
+ */
+export function disposeSideEffects(tracker: ISideEffectTracker): void {
+  if (tracker.disposed) {
+    return
+  }
+  tracker.disposed = true
+
+  tracker.timeouts.forEach((id) => window.clearTimeout(id))
+  tracker.intervals.forEach((id) => window.clearInterval(id))
+  tracker.frames.forEach((id) => window.cancelAnimationFrame(id))
+  for (const { target, type, listener, options } of tracker.listeners) {
+    target.removeEventListener(type, listener, options)
+  }
+  for (const name of tracker.globals) {
+    if (!Reflect.deleteProperty(window, name)) {
+      Reflect.set(window, name, undefined)
+    }
+  }
+
+  tracker.timeouts.clear()
+  tracker.intervals.clear()
+  tracker.frames.clear()
+  tracker.listeners = []
+  tracker.globals.clear()
+}
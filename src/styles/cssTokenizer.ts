@@ -0,0 +1,560 @@
+/**
+ * CSS Tokenizer and Rule Parser
+ *
+ * A small implementation of the tokenizer and rule parsing of CSS Syntax Level 3
+ * (https://www.w3.org/TR/css-syntax-3/), used by the helpers in `cssUtils` instead of
+ * regular expressions. Braces, quotes and comment markers inside strings, escapes,
+ * `url()` values and unterminated constructs are handled the way browsers do.
+ *
+ * Differences From the Specification:
+ * - The input is not preprocessed, so token offsets index the original string;
+ *   `\r\n`, `\r` and `\f` are treated as newlines where it matters
+ * - Comments are returned as tokens, so callers can keep or drop them
+ * - Rules keep their source offsets; declarations are not parsed
+ *
+ * @module cssTokenizer
+ */
+
+/**
+ * Type of a CSS token. `comment` is not a token in the specification.
+ */
+export type CssTokenType =
+  | 'ident'
+  | 'function'
+  | 'at-keyword'
+  | 'hash'
+  | 'string'
+  | 'bad-string'
+  | 'url'
+  | 'bad-url'
+  | 'delim'
+  | 'number'
+  | 'percentage'
+  | 'dimension'
+  | 'whitespace'
+  | 'CDO'
+  | 'CDC'
+  | 'colon'
+  | 'semicolon'
+  | 'comma'
+  | '['
+  | ']'
+  | '('
+  | ')'
+  | '{'
+  | '}'
+  | 'comment'
+
+/**
+ * A CSS token with its position in the source.
+ */
+export interface ICssToken {
+  type: CssTokenType
+
+  /**
+   * Unescaped value: the name of idents, functions, at-keywords and hashes, the
+   * contents of strings and URLs, the unit of dimensions, or the delimiter character.
+   */
+  value: string
+
+  /** Source text of the token */
+  text: string
+
+  /** Offset of the token in the source */
+  start: number
+
+  /** Offset after the token in the source */
+  end: number
+}
+
+/**
+ * A rule parsed from a token list.
+ */
+export interface ICssRule {
+  type: 'at-rule' | 'qualified-rule'
+
+  /** Lowercase at-rule name without the `@`; empty for qualified rules */
+  name: string
+
+  /** Tokens between the at-keyword (or the rule start) and the block or semicolon */
+  prelude: ICssToken[]
+
+  /** Tokens inside the `{}` block, or null for statements like `@import` */
+  block: ICssToken[] | null
+
+  /** Whether the rule was terminated by `;` or `}` before the end of the input */
+  closed: boolean
+
+  /** Offset of the rule in the source */
+  start: number
+
+  /** Offset after the rule in the source */
+  end: number
+}
+
+/**
+ * Token types each opening token is closed by.
+ */
+const CLOSING_TOKENS: Partial<Record<CssTokenType, CssTokenType>> = {
+  '{': '}',
+  '[': ']',
+  '(': ')',
+  function: ')',
+}
+
+/**
+ * Single-character tokens.
+ */
+const PUNCTUATION: Record<string, CssTokenType> = {
+  '(': '(',
+  ')': ')',
+  '[': '[',
+  ']': ']',
+  '{': '{',
+  '}': '}',
+  ',': 'comma',
+  ':': 'colon',
+  ';': 'semicolon',
+}
+
+function isNewline(ch: string | undefined): boolean {
+  return ch === '\n' || ch === '\r' || ch === '\f'
+}
+
+function isWhitespace(ch: string | undefined): boolean {
+  return ch === ' ' || ch === '\t' || isNewline(ch)
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9'
+}
+
+function isHexDigit(ch: string | undefined): boolean {
+  return ch !== undefined && /^[0-9a-f]$/i.test(ch)
+}
+
+function isIdentStart(ch: string | undefined): boolean {
+  return ch !== undefined && (/^[a-z_]$/i.test(ch) || ch.charCodeAt(0) >= 0x80)
+}
+
+function isIdentChar(ch: string | undefined): boolean {
+  return isIdentStart(ch) || isDigit(ch) || ch === '-'
+}
+
+function isNonPrintable(ch: string): boolean {
+  const code = ch.charCodeAt(0)
+  return code <= 0x08 || code === 0x0b || (code >= 0x0e && code <= 0x1f) || code === 0x7f
+}
+
+/**
+ * Whether a backslash and the character after it form a valid escape.
+ */
+function isValidEscape(first: string | undefined, second: string | undefined): boolean {
+  return first === '\\' && second !== undefined && !isNewline(second)
+}
+
+/**
+ * Whether three characters would start an identifier.
+ */
+function startsIdent(a: string | undefined, b: string | undefined, c: string | undefined): boolean {
+  if (a === '-') {
+    return isIdentStart(b) || b === '-' || isValidEscape(b, c)
+  }
+  return isIdentStart(a) || isValidEscape(a, b)
+}
+
+/**
+ * Whether three characters would start a number.
+ */
+function startsNumber(
+  a: string | undefined,
+  b: string | undefined,
+  c: string | undefined,
+): boolean {
+  if (a === '+' || a === '-') {
+    return isDigit(b) || (b === '.' && isDigit(c))
+  }
+  return isDigit(a) || (a === '.' && isDigit(b))
+}
+
+/**
+ * Split CSS source into tokens, comments included.
+ *
+ * @param css - The CSS source
+ * @returns The tokens, covering the whole source
+ *
+ * @example
+ * ```ts
+ * tokenizeCss('a { content: "}" }').map((t) => t.type);
+ * // ['ident', 'whitespace', '{', 'whitespace', 'ident', 'colon', 'whitespace', 'string', ...]
+ * ```
+ */
+export function tokenizeCss(css: string): ICssToken[] {
+  const tokens: ICssToken[] = []
+  let pos = 0
+
+  // Consume an escape after its backslash and return the escaped character
+  function consumeEscape(): string {
+    if (pos >= css.length) {
+      return '\ufffd'
+    }
+    if (!isHexDigit(css[pos])) {
+      const ch = String.fromCodePoint(css.codePointAt(pos) ?? 0xfffd)
+      pos += ch.length
+      return ch
+    }
+    let hex = ''
+    while (hex.length < 6 && isHexDigit(css[pos])) {
+      hex += css[pos++]
+    }
+    if (css[pos] === '\r' && css[pos + 1] === '\n') {
+      pos += 2
+    } else if (isWhitespace(css[pos])) {
+      pos++
+    }
+    const code = parseInt(hex, 16)
+    const valid = code !== 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff)
+    return String.fromCodePoint(valid ? code : 0xfffd)
+  }
+
+  function consumeName(): string {
+    let name = ''
+    for (;;) {
+      if (isIdentChar(css[pos])) {
+        name += css[pos++]
+      } else if (isValidEscape(css[pos], css[pos + 1])) {
+        pos++
+        name += consumeEscape()
+      } else {
+        return name
+      }
+    }
+  }
+
+  function consumeNumber(): string {
+    const start = pos
+    if (css[pos] === '+' || css[pos] === '-') {
+      pos++
+    }
+    while (isDigit(css[pos])) {
+      pos++
+    }
+    if (css[pos] === '.' && isDigit(css[pos + 1])) {
+      pos += 2
+      while (isDigit(css[pos])) {
+        pos++
+      }
+    }
+    const sign = css[pos + 1] === '+' || css[pos + 1] === '-'
+    if (/[eE]/.test(css[pos] ?? '') && isDigit(css[pos + (sign ? 2 : 1)])) {
+      pos += sign ? 3 : 2
+      while (isDigit(css[pos])) {
+        pos++
+      }
+    }
+    return css.slice(start, pos)
+  }
+
+  function consumeString(quote: string): [CssTokenType, string] {
+    let value = ''
+    for (;;) {
+      const ch = css[pos]
+      if (ch === undefined) {
+        return ['string', value]
+      }
+      if (ch === quote) {
+        pos++
+        return ['string', value]
+      }
+      if (isNewline(ch)) {
+        return ['bad-string', value]
+      }
+      pos++
+      if (ch !== '\\') {
+        value += ch
+      } else if (css[pos] === '\r' && css[pos + 1] === '\n') {
+        pos += 2
+      } else if (isNewline(css[pos])) {
+        pos++
+      } else if (pos < css.length) {
+        value += consumeEscape()
+      }
+    }
+  }
+
+  function consumeBadUrlRemnants(): void {
+    while (pos < css.length && css[pos] !== ')') {
+      pos += isValidEscape(css[pos], css[pos + 1]) ? 2 : 1
+    }
+    pos = Math.min(pos + 1, css.length)
+  }
+
+  function consumeUrl(): [CssTokenType, string] {
+    let value = ''
+    while (isWhitespace(css[pos])) {
+      pos++
+    }
+    for (;;) {
+      const ch = css[pos]
+      if (ch === undefined) {
+        return ['url', value]
+      }
+      if (ch === ')') {
+        pos++
+        return ['url', value]
+      }
+      if (isWhitespace(ch)) {
+        while (isWhitespace(css[pos])) {
+          pos++
+        }
+        if (css[pos] === ')' || pos >= css.length) {
+          pos = Math.min(pos + 1, css.length)
+          return ['url', value]
+        }
+        consumeBadUrlRemnants()
+        return ['bad-url', value]
+      }
+      if (ch === '"' || ch === "'" || ch === '(' || isNonPrintable(ch)) {
+        consumeBadUrlRemnants()
+        return ['bad-url', value]
+      }
+      if (ch === '\\') {
+        if (!isValidEscape(ch, css[pos + 1])) {
+          consumeBadUrlRemnants()
+          return ['bad-url', value]
+        }
+        pos++
+        value += consumeEscape()
+        continue
+      }
+      value += ch
+      pos++
+    }
+  }
+
+  function consumeIdentLike(): [CssTokenType, string] {
+    const name = consumeName()
+    if (css[pos] !== '(') {
+      return ['ident', name]
+    }
+    pos++
+    if (name.toLowerCase() !== 'url') {
+      return ['function', name]
+    }
+    // A quoted URL is a url() function with a string argument
+    let next = pos
+    while (isWhitespace(css[next])) {
+      next++
+    }
+    if (css[next] === '"' || css[next] === "'") {
+      return ['function', name]
+    }
+    return consumeUrl()
+  }
+
+  function consumeNumeric(): [CssTokenType, string] {
+    const number = consumeNumber()
+    if (startsIdent(css[pos], css[pos + 1], css[pos + 2])) {
+      return ['dimension', consumeName()]
+    }
+    if (css[pos] === '%') {
+      pos++
+      return ['percentage', number]
+    }
+    return ['number', number]
+  }
+
+  function consumeToken(): [CssTokenType, string] {
+    const ch = css[pos]
+    const [next, after] = [css[pos + 1], css[pos + 2]]
+    if (ch === '/' && next === '*') {
+      const end = css.indexOf('*/', pos + 2)
+      pos = end === -1 ? css.length : end + 2
+      return ['comment', '']
+    }
+    if (isWhitespace(ch)) {
+      while (isWhitespace(css[pos])) {
+        pos++
+      }
+      return ['whitespace', ' ']
+    }
+    if (ch === '"' || ch === "'") {
+      pos++
+      return consumeString(ch)
+    }
+    if (PUNCTUATION[ch]) {
+      pos++
+      return [PUNCTUATION[ch], ch]
+    }
+    if (
+      isDigit(ch) ||
+      ((ch === '+' || ch === '-' || ch === '.') && startsNumber(ch, next, after))
+    ) {
+      return consumeNumeric()
+    }
+    if (ch === '#' && (isIdentChar(next) || isValidEscape(next, after))) {
+      pos++
+      return ['hash', consumeName()]
+    }
+    if (ch === '-' && next === '-' && after === '>') {
+      pos += 3
+      return ['CDC', '-->']
+    }
+    if (ch === '<' && css.startsWith('!--', pos + 1)) {
+      pos += 4
+      return ['CDO', '<!--']
+    }
+    if (ch === '@' && startsIdent(next, after, css[pos + 3])) {
+      pos++
+      return ['at-keyword', consumeName()]
+    }
+    if (startsIdent(ch, next, after)) {
+      return consumeIdentLike()
+    }
+    const delim = String.fromCodePoint(css.codePointAt(pos) ?? 0xfffd)
+    pos += delim.length
+    return ['delim', delim]
+  }
+
+  while (pos < css.length) {
+    const start = pos
+    const [type, value] = consumeToken()
+    tokens.push({ type, value, text: css.slice(start, pos), start, end: pos })
+  }
+  return tokens
+}
+
+/**
+ * Skip the component value starting at `index`: a single token, or a `{}`, `[]`, `()`
+ * block or function up to its matching closing token (or the end of the list).
+ *
+ * @returns The index after the component value
+ */
+export function skipComponentValue(tokens: ICssToken[], index: number): number {
+  const closing = CLOSING_TOKENS[tokens[index].type]
+  if (!closing) {
+    return index + 1
+  }
+  let i = index + 1
+  while (i < tokens.length && tokens[i].type !== closing) {
+    i = skipComponentValue(tokens, i)
+  }
+  return Math.min(i + 1, tokens.length)
+}
+
+/**
+ * Parse a token list into rules: the top level of a stylesheet, or the contents of
+ * a block. Declarations between the rules are skipped, and so are nested rules;
+ * parse the `block` of a rule to get those.
+ *
+ * @param tokens - The tokens, as returned by `tokenizeCss` or `ICssRule.block`
+ * @returns The rules, in source order
+ *
+ * @example
+ * ```ts
+ * const [media] = parseCssRules(tokenizeCss('@media print { @font-face { ... } }'));
+ * const [fontFace] = parseCssRules(media.block ?? []);
+ * ```
+ */
+export function parseCssRules(tokens: ICssToken[]): ICssRule[] {
+  const rules: ICssRule[] = []
+  let i = 0
+  while (i < tokens.length) {
+    const token = tokens[i]
+    if (['whitespace', 'comment', 'CDO', 'CDC', 'semicolon'].includes(token.type)) {
+      i++
+      continue
+    }
+
+    const isAtRule = token.type === 'at-keyword'
+    const preludeStart = isAtRule ? i + 1 : i
+    let j = preludeStart
+    while (j < tokens.length && tokens[j].type !== '{' && tokens[j].type !== 'semicolon') {
+      j = skipComponentValue(tokens, j)
+    }
+
+    const prelude = tokens.slice(preludeStart, j)
+    if (j < tokens.length && tokens[j].type === '{') {
+      let k = j + 1
+      while (k < tokens.length && tokens[k].type !== '}') {
+        k = skipComponentValue(tokens, k)
+      }
+      const closed = k < tokens.length
+      rules.push({
+        type: isAtRule ? 'at-rule' : 'qualified-rule',
+        name: isAtRule ? token.value.toLowerCase() : '',
+        prelude,
+        block: tokens.slice(j + 1, k),
+        closed,
+        start: token.start,
+        end: tokens[closed ? k : k - 1].end,
+      })
+      i = k + 1
+      continue
+    }
+
+    // Statement at-rules end at a semicolon; anything else up to one is a declaration
+    if (isAtRule) {
+      const closed = j < tokens.length
+      rules.push({
+        type: 'at-rule',
+        name: token.value.toLowerCase(),
+        prelude,
+        block: null,
+        closed,
+        start: token.start,
+        end: closed ? tokens[j].end : tokens[tokens.length - 1].end,
+      })
+    }
+    i = j + 1
+  }
+  return rules
+}
+
+/**
+ * Tokens that would merge into one (or change meaning) when written next to each
+ * other, from the serialization rules of CSS Syntax Level 3.
+ */
+const NUMERIC_TOKENS = ['number', 'percentage', 'dimension']
+const IDENT_LIKE_TOKENS = ['ident', 'function', 'url', 'bad-url']
+const AFTER_HASH = [...IDENT_LIKE_TOKENS, 'delim:-', ...NUMERIC_TOKENS]
+const AFTER_IDENT = [...AFTER_HASH, 'CDC']
+const SEPARATED_TOKENS: Record<string, string[]> = {
+  ident: [...AFTER_IDENT, '('],
+  'at-keyword': AFTER_IDENT,
+  hash: AFTER_IDENT,
+  dimension: AFTER_IDENT,
+  'delim:#': AFTER_HASH,
+  'delim:-': AFTER_HASH,
+  number: [...IDENT_LIKE_TOKENS, ...NUMERIC_TOKENS, 'delim:%', 'CDC'],
+  'delim:@': [...IDENT_LIKE_TOKENS, 'delim:-', 'CDC'],
+  'delim:.': NUMERIC_TOKENS,
+  'delim:+': NUMERIC_TOKENS,
+  'delim:/': ['delim:*'],
+}
+
+function getSeparationKey(token: ICssToken): string {
+  return token.type === 'delim' ? `delim:${token.value}` : token.type
+}
+
+/**
+ * Write tokens back as CSS source, with a space between neighbors that would
+ * otherwise be read as a single token, e.g. once the comment between them is removed.
+ *
+ * @param tokens - The tokens
+ * @returns The CSS source
+ */
+export function serializeTokens(tokens: ICssToken[]): string {
+  let css = ''
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1]
+    if (
+      previous &&
+      SEPARATED_TOKENS[getSeparationKey(previous)]?.includes(getSeparationKey(token))
+    ) {
+      css += ' '
+    }
+    css += token.text
+  })
+  return css
+}
@@ -1,40 +1,107 @@
 import {
-  createImportRegex,
-  extractFontFaceBlocks,
+  extractAtRuleBlocks,
+  extractImportRules,
   getDocBaseUrl,
+  getImportConditionPreludes,
+  getInnermostRule,
   rebaseUrls,
   resolveUrl,
+  setFontFaceDescriptor,
   stripComments,
 } from './cssUtils'
+import { filterFontFaceSources, isAllowedUrl } from '../extras/resourcePolicy'
+import type { HoistedAtRule, IFontFaceExtractionOptions } from '../extras/types'
 
 /**
- * Collect @font-face rules from a parsed HTML Document.
+ * At-rules hoisted when `options.atRules` is not set. The other rule types apply
+ * page-wide and may clash with the host page's own definitions, so they are opt-in.
+ */
+const DEFAULT_AT_RULES: HoistedAtRule[] = ['font-face']
+
+/**
+ * Collect @font-face rules, and the other document-scoped at-rules listed in
+ * `options.atRules` (`@property`, `@counter-style`, `@font-palette-values`), from a
+ * parsed HTML Document.
  *
  * - Scans <style> blocks
  * - Follows @import chains recursively
+ * - Keeps the `@media`, `@supports` and `@layer` rules around nested rules, and applies
+ *   the conditions of `@import` rules and the `media` of <style>/<link> the same way
  * - Fetches and processes external stylesheets from <link rel="stylesheet" href> and
  *   <link rel="preload" as="style" href>
  * - Rebases relative url() paths against the stylesheet URL
  * - Deduplicates via Set and guards against cycles via visited URLs
+ *
+ * `options.baseUrl` overrides the document base used to resolve relative URLs.
+ * `options.signal` cancels pending fetches; rules collected so far are returned.
+ * `options.onStylesheetError` is notified of stylesheets that fail to fetch.
+ * `options.fetch` replaces the global `fetch` for stylesheet requests.
+ * `options.fontDisplay` replaces the `font-display` descriptor of the @font-face rules.
+ * `options.resourcePolicy` skips stylesheets and `@import` targets from disallowed origins
+ * and removes disallowed font sources; `options.onBlockedResource` is notified of each.
  */
-export async function collectFontFaceRulesFromDocument(doc: Document): Promise<Set<string>> {
+export async function collectFontFaceRulesFromDocument(
+  doc: Document,
+  options: IFontFaceExtractionOptions = {},
+): Promise<Set<string>> {
   const fontSet = new Set<string>()
   const visited = new Set<string>()
-  const importRegex = createImportRegex()
+  const { signal, onStylesheetError, resourcePolicy, fontDisplay } = options
+  const { atRules = DEFAULT_AT_RULES } = options
+  const reportBlocked = options.onBlockedResource ?? (() => {})
 
-  async function processCss(cssRaw: string, baseUrl: string): Promise<void> {
+  // Stylesheets from origins the policy does not allow are never fetched
+  function isBlockedStylesheet(url: string): boolean {
+    if (isAllowedUrl(url, resourcePolicy?.stylesheets)) {
+      return false
+    }
+    reportBlocked({ kind: 'stylesheet', url })
+    return true
+  }
+
+  async function fetchCss(url: string): Promise<string | null> {
+    try {
+      const res = await (options.fetch ?? fetch)(url, { signal })
+      if (!res.ok) {
+        onStylesheetError?.(url, new Error(`HTTP ${res.status} while fetching ${url}`))
+        return null
+      }
+      return await res.text()
+    } catch (error) {
+      if (!signal?.aborted) {
+        onStylesheetError?.(url, error)
+      }
+      return null
+    }
+  }
+
+  async function processCss(cssRaw: string, baseUrl: string, wrappers: string[]): Promise<void> {
     const css = stripComments(cssRaw)
 
-    // 1) Collect inline @font-face blocks
-    for (const block of extractFontFaceBlocks(css)) {
-      fontSet.add(rebaseUrls(block, baseUrl))
+    // 1) Collect inline @font-face and other hoisted at-rule blocks, in their
+    //    @media/@supports/@layer wrappers
+    for (const block of extractAtRuleBlocks(css, atRules, wrappers)) {
+      const rule = rebaseUrls(block, baseUrl)
+      const isFontFace = /^@font-face/i.test(getInnermostRule(rule))
+      const allowed =
+        resourcePolicy && isFontFace
+          ? filterFontFaceSources(rule, resourcePolicy, reportBlocked)
+          : rule
+      if (allowed) {
+        fontSet.add(
+          fontDisplay && isFontFace
+            ? setFontFaceDescriptor(allowed, 'font-display', fontDisplay)
+            : allowed,
+        )
+      }
     }
 
     // 2) Resolve @import recursively
-    let match: RegExpExecArray | null
-    importRegex.lastIndex = 0
-    while ((match = importRegex.exec(css))) {
-      const url = (match[2] || match[4] || '').trim()
+    for (const importRule of extractImportRules(css)) {
+      if (signal?.aborted) {
+        return
+      }
+      const url = importRule.url.trim()
       if (!url) {
         continue
       }
@@ -43,26 +110,29 @@ export async function collectFontFaceRulesFromDocument(doc: Document): Promise<S
         continue
       }
       visited.add(absUrl)
-      try {
-        const res = await fetch(absUrl)
-        if (!res.ok) {
-          continue
-        }
-        const text = await res.text()
-        await processCss(text, absUrl)
-      } catch {
-        // ignore fetch errors
+      if (isBlockedStylesheet(absUrl)) {
+        continue
+      }
+      const text = await fetchCss(absUrl)
+      if (text != null) {
+        // The import conditions apply to every rule of the imported stylesheet
+        const conditions = getImportConditionPreludes(importRule.conditions)
+        await processCss(text, absUrl, [...wrappers, ...conditions])
       }
     }
   }
 
-  const docBase = getDocBaseUrl(doc)
+  const docBase = getDocBaseUrl(doc, options.baseUrl)
 
   // Inline <style>
   const styleElements = doc.querySelectorAll('style')
   for (const styleEl of Array.from(styleElements)) {
+    if (signal?.aborted) {
+      return fontSet
+    }
     const cssText = styleEl.textContent || ''
-    await processCss(cssText, docBase)
+    const media = styleEl.getAttribute('media')?.trim()
+    await processCss(cssText, docBase, media ? [`@media ${media}`] : [])
   }
 
   // External stylesheets via <link>
@@ -71,23 +141,16 @@ export async function collectFontFaceRulesFromDocument(doc: Document): Promise<S
       'link[rel~="stylesheet"][href], link[rel="preload"][as="style"][href]',
     )
     for (const linkEl of Array.from(linkNodes)) {
+      if (signal?.aborted) {
+        break
+      }
       const rel = (linkEl.getAttribute('rel') || '').toLowerCase()
       if (rel.includes('alternate') || linkEl.hasAttribute('disabled')) {
         continue
       }
+      // Stylesheets for other media (e.g. print) are collected too; the @media wrapper
+      // applies their rules only where the media matches
       const media = linkEl.getAttribute('media')?.trim()
-      if (media) {
-        try {
-          if (typeof window !== 'undefined' && typeof window.matchMedia === 'function') {
-            const mql = window.matchMedia(media)
-            if (!mql.matches) {
-              continue
-            }
-          }
-        } catch {
-          // ignore invalid media values
-        }
-      }
 
       const href = linkEl.getAttribute('href')?.trim() || ''
       if (!href) {
@@ -98,15 +161,12 @@ export async function collectFontFaceRulesFromDocument(doc: Document): Promise<S
         continue
       }
       visited.add(absHref)
-      try {
-        const res = await fetch(absHref)
-        if (!res.ok) {
-          continue
-        }
-        const text = await res.text()
-        await processCss(text, absHref)
-      } catch {
-        // ignore fetch errors
+      if (isBlockedStylesheet(absHref)) {
+        continue
+      }
+      const text = await fetchCss(absHref)
+      if (text != null) {
+        await processCss(text, absHref, media ? [`@media ${media}`] : [])
       }
     }
   } catch {
@@ -1,25 +1,31 @@
 /**
- * Inject collected @font-face rules into the main document head.
+ * Inject collected @font-face rules (and other hoisted at-rules) into the main document head.
  *
- * - Creates (or reuses) a <style id="shadow-dom-fonts"> element
- * - Deduplicates against existing content to avoid repeated rules
+ * - Creates (or reuses) a <style id="shadow-dom-fonts"> element, with `nonce` when given
+ * - Deduplicates against existing content to avoid repeated rules, unless
+ *   `preventDuplicates` is false
  */
 export function injectFontFaces(
   rules: Iterable<string>,
   styleElementId = 'shadow-dom-fonts',
+  preventDuplicates = true,
+  nonce?: string,
 ): void {
   // Assemble rules to append, checking against existing content
   let styleEl = document.getElementById(styleElementId) as HTMLStyleElement | null
   if (!styleEl) {
     styleEl = document.createElement('style')
     styleEl.id = styleElementId
+    if (nonce) {
+      styleEl.nonce = nonce
+    }
     document.head.appendChild(styleEl)
   }
 
   const existing = styleEl.textContent || ''
   let appended = ''
   for (const rule of rules) {
-    if (!existing.includes(rule)) {
+    if (!preventDuplicates || !existing.includes(rule)) {
       appended += (appended ? '\n' : '') + rule
     }
   }
@@ -27,3 +33,138 @@ export function injectFontFaces(
     styleEl.textContent += (styleEl.textContent ? '\n' : '') + appended
   }
 }
+
+/**
+ * Rules a render root contributed to one injected style element.
+ */
+interface IFontFaceRegistration {
+  styleElementId: string
+  preventDuplicates: boolean
+  rules: string[]
+}
+
+/**
+ * Rules each render root contributed, released when the root is cleared.
+ */
+const registrations = new WeakMap<ParentNode, IFontFaceRegistration[]>()
+
+/**
+ * Number of registrations using each rule, per style element ID.
+ */
+const ruleCounts = new Map<string, Map<string, number>>()
+
+/**
+ * Inject rules like `injectFontFaces` and register them for a render root, counting
+ * the roots that use each rule. Registrations of a root add up until it is released.
+ */
+export function retainFontFaces(
+  root: ParentNode,
+  rules: Iterable<string>,
+  styleElementId = 'shadow-dom-fonts',
+  preventDuplicates = true,
+  nonce?: string,
+): void {
+  const list = Array.from(rules)
+  if (list.length === 0) {
+    return
+  }
+  injectFontFaces(list, styleElementId, preventDuplicates, nonce)
+
+  let counts = ruleCounts.get(styleElementId)
+  if (!counts) {
+    counts = new Map()
+    ruleCounts.set(styleElementId, counts)
+  }
+  for (const rule of list) {
+    counts.set(rule, (counts.get(rule) ?? 0) + 1)
+  }
+  const registration = { styleElementId, preventDuplicates, rules: list }
+  registrations.set(root, [...(registrations.get(root) ?? []), registration])
+}
+
+/**
+ * Remove one occurrence of a rule, with the line break separating it, from style text.
+ */
+function removeRule(text: string, rule: string): string {
+  const index = text.indexOf(rule)
+  if (index === -1) {
+    return text
+  }
+  const start = text[index - 1] === '\n' ? index - 1 : index
+  const end = start === index && text[index + rule.length] === '\n' ? 1 : 0
+  return text.slice(0, start) + text.slice(index + rule.length + end)
+}
+
+/**
+ * Release a registration: rules no other registration uses are removed from their
+ * style element, and the element is removed once it is empty.
+ */
+function releaseRegistration(registration: IFontFaceRegistration): void {
+  const { styleElementId, preventDuplicates, rules } = registration
+  const counts = ruleCounts.get(styleElementId)
+  const styleEl = document.getElementById(styleElementId)
+  let text = styleEl?.textContent ?? ''
+  for (const rule of rules) {
+    const count = (counts?.get(rule) ?? 1) - 1
+    if (count > 0) {
+      counts?.set(rule, count)
+    } else {
+      counts?.delete(rule)
+    }
+    // Without deduplication, every registration appended its own copy of the rule
+    if (count <= 0 || !preventDuplicates) {
+      text = removeRule(text, rule)
+    }
+  }
+  if (counts?.size === 0) {
+    ruleCounts.delete(styleElementId)
+  }
+  if (!styleEl) {
+    return
+  }
+  if (text.trim()) {
+    styleEl.textContent = text
+  } else {
+    styleEl.remove()
+  }
+}
+
+/**
+ * Registrations detached from a render root by `detachFontFaces`.
+ */
+export interface IDetachedFontFaces {
+  /** Release the registrations, once the new render committed its own */
+  release: () => void
+  /** Register them for the root again, when the new render did not commit */
+  restore: () => void
+}
+
+/**
+ * Detach the registrations of a render root, to release them once a new render
+ * registered its rules; rules both renders use are never removed in between.
+ */
+export function detachFontFaces(root: ParentNode): IDetachedFontFaces {
+  const detached = registrations.get(root) ?? []
+  registrations.delete(root)
+  return {
+    release: () => detached.forEach(releaseRegistration),
+    restore: () => registrations.set(root, [...detached, ...(registrations.get(root) ?? [])]),
+  }
+}
+
+/**
+ * Release the rules a render root contributed. Rules no other live root uses are
+ * removed from the main document.
+ *
+ * Called by `clearShadowRoot` and `clearElement`.
+ *
+ * @param root - The render root
+ *
+ * @example
+ * ```ts
+ * releaseFontFaces(shadowRoot);
+ * ```
+ */
+export function releaseFontFaces(root: ParentNode): void {
+  detachFontFaces(root).release()
+}
@@ -0,0 +1,155 @@
+/**
+ * Font Readiness
+ *
+ * Hoisted @font-face rules only start loading once the page uses them, so a render
+ * resolves while its text still shows fallback fonts. This module lets renders wait
+ * for those faces through `document.fonts` (`IHtmlRendererOptions.waitForFonts`):
+ *
+ * - Every face of the families the render injected is loaded, with a time limit
+ * - The outcome of each face is reported as "loaded", "error" or "timed-out"
+ * - The shadow host can be kept hidden until then, avoiding a flash of unstyled text
+ *
+ * @module fontReadiness
+ */
+
+import { getFontFaceFamily } from './cssUtils'
+import type { IFontFaceResult, IFontWaitOptions } from '../extras/types'
+
+/**
+ * Time limit used when `IFontWaitOptions.timeout` is not set.
+ */
+const DEFAULT_FONT_TIMEOUT = 3000
+
+/**
+ * Hosts hidden while fonts load, with the number of renders waiting and the inline
+ * visibility to restore once the last one is done.
+ */
+const hiddenHosts = new WeakMap<HTMLElement, { count: number; value: string; priority: string }>()
+
+/**
+ * Remove the quotes around a family name, as `FontFace.family` may return it quoted.
+ */
+function unquoteFamily(family: string): string {
+  return family.replace(/^(["'])(.*)\1$/, '$2')
+}
+
+/**
+ * Resolve `IHtmlRendererOptions.waitForFonts` into options, or null when renders
+ * should not wait.
+ */
+export function resolveFontWaitOptions(
+  option: boolean | IFontWaitOptions | undefined,
+): IFontWaitOptions | null {
+  if (!option) {
+    return null
+  }
+  return option === true ? {} : option
+}
+
+/**
+ * Load the font faces of the families declared by @font-face rules and wait until
+ * they loaded or failed, or until the time limit runs out.
+ *
+ * Faces are looked up in `document.fonts` by family, so every face of a family
+ * (all weights and styles) is loaded. Without `document.fonts`, nothing is waited for.
+ *
+ * @param rules - The @font-face rules, e.g. `IRenderResult.fontFaceRules`
+ * @param options - Time limit
+ * @param signal - Stops waiting when aborted; faces still loading are reported as "timed-out"
+ * @returns The outcome of every face
+ *
+ * @example
+ * ```ts
+ * const result = await renderIntoShadowRoot(shadowRoot, html);
+ * const fonts = await waitForFontFaces(result.fontFaceRules, { timeout: 5000 });
+ * ```
+ */
+export async function waitForFontFaces(
+  rules: string[],
+  options: IFontWaitOptions = {},
+  signal?: AbortSignal,
+): Promise<IFontFaceResult[]> {
+  const fontSet = typeof document !== 'undefined' ? document.fonts : undefined
+  const families = new Set<string>()
+  for (const rule of rules) {
+    const family = getFontFaceFamily(rule)
+    if (family) {
+      families.add(family.toLowerCase())
+    }
+  }
+  if (!fontSet || families.size === 0 || signal?.aborted) {
+    return []
+  }
+
+  const faces: FontFace[] = []
+  fontSet.forEach((face) => {
+    if (families.has(unquoteFamily(face.family).toLowerCase())) {
+      faces.push(face)
+    }
+  })
+  const results: IFontFaceResult[] = faces.map((face) => ({
+    family: unquoteFamily(face.family),
+    style: face.style,
+    weight: face.weight,
+    status: 'timed-out',
+  }))
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onAbort = (): void => {}
+  const settled = Promise.all(
+    faces.map((face, index) =>
+      face.load().then(
+        () => (results[index].status = 'loaded'),
+        () => (results[index].status = 'error'),
+      ),
+    ),
+  )
+  const stopped = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, options.timeout ?? DEFAULT_FONT_TIMEOUT)
+    onAbort = resolve
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+  try {
+    await Promise.race([settled, stopped])
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+  // Faces that settle later must not change the reported outcome
+  return results.map((result) => ({ ...result }))
+}
+
+/**
+ * Keep a host `visibility: hidden` until a promise settles. Overlapping calls for
+ * the same host are counted, and its own inline visibility is restored after the last.
+ *
+ * @param host - The shadow host
+ * @param ready - Settles when the host may be shown
+ */
+export function hideHostUntil(host: HTMLElement, ready: Promise<unknown>): void {
+  const hidden = hiddenHosts.get(host)
+  if (hidden) {
+    hidden.count++
+  } else {
+    hiddenHosts.set(host, {
+      count: 1,
+      value: host.style.getPropertyValue('visibility'),
+      priority: host.style.getPropertyPriority('visibility'),
+    })
+    host.style.setProperty('visibility', 'hidden', 'important')
+  }
+
+  const reveal = (): void => {
+    const entry = hiddenHosts.get(host)
+    if (!entry || --entry.count > 0) {
+      return
+    }
+    hiddenHosts.delete(host)
+    if (entry.value) {
+      host.style.setProperty('visibility', entry.value, entry.priority)
+    } else {
+      host.style.removeProperty('visibility')
+    }
+  }
+  ready.then(reveal, reveal)
+}
@@ -0,0 +1,218 @@
+/**
+ * Per-root font-family scoping.
+ *
+ * Hoisted @font-face rules share one page-wide namespace, so two rendered documents
+ * declaring the same family with different files would override each other. With
+ * `IHtmlRendererOptions.scopeFontFamilies`, the families declared in a document's
+ * `<style>` elements are renamed to aliases unique to its render root, in the
+ * @font-face rules as well as in the `font-family` and `font` declarations that use them.
+ *
+ * Families declared in linked stylesheets or `@import` targets keep their names: the
+ * declarations using them cannot be rewritten. For the same reason, a linked stylesheet
+ * using a family declared in a `<style>` element no longer finds it under its name.
+ *
+ * Declarations are found with the CSS tokenizer, so text inside strings and comments
+ * that looks like one is left alone.
+ *
+ * @module fontScoping
+ */
+
+import { parseCssRules, tokenizeCss, type ICssToken } from './cssTokenizer'
+import {
+  extractAtRuleBlocks,
+  getFontFaceFamily,
+  readDeclarations,
+  stripComments,
+  type ICssDeclaration,
+} from './cssUtils'
+
+/**
+ * Alias suffix of each render root, kept across re-renders so aliases stay stable.
+ */
+const rootSuffixes = new WeakMap<ParentNode, string>()
+
+let suffixCount = 0
+
+/**
+ * Matches a quoted family name.
+ */
+const QUOTED_FAMILY_RE = /^(["'])(.*)\1$/
+
+/**
+ * Get the alias suffix of a render root.
+ */
+function getRootSuffix(root: ParentNode): string {
+  let suffix = rootSuffixes.get(root)
+  if (!suffix) {
+    suffix = `s${++suffixCount}`
+    rootSuffixes.set(root, suffix)
+  }
+  return suffix
+}
+
+/**
+ * Split a comma-separated family list, ignoring commas inside quotes.
+ */
+function splitFamilyList(value: string): string[] {
+  const items: string[] = []
+  let quote = ''
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]
+    if (quote) {
+      quote = ch === quote ? '' : quote
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === ',') {
+      items.push(value.slice(start, i))
+      start = i + 1
+    }
+  }
+  items.push(value.slice(start))
+  return items
+}
+
+/**
+ * Replace a single family name (quoted or not) with its alias, if it has one.
+ */
+function aliasFamily(family: string, aliases: Map<string, string>): string {
+  const quoted = QUOTED_FAMILY_RE.exec(family)
+  const name = quoted ? quoted[2] : family.replace(/\s+/g, ' ')
+  const alias = aliases.get(name.toLowerCase())
+  return alias ? JSON.stringify(alias) : family
+}
+
+/**
+ * Replace the family ending the first item of a `font` shorthand, after the style,
+ * weight and size values, with its alias.
+ */
+function aliasShorthandFamily(item: string, aliases: Map<string, string>): string {
+  const quoted = /(["'])(?:(?!\1).)*\1$/.exec(item)
+  if (quoted) {
+    return item.slice(0, quoted.index) + aliasFamily(quoted[0], aliases)
+  }
+  const words = item.split(/\s+/)
+  // The font size always precedes the family, so at least one word is kept
+  for (let i = 1; i < words.length; i++) {
+    const family = words.slice(i).join(' ')
+    const aliased = aliasFamily(family, aliases)
+    if (aliased !== family) {
+      return `${words.slice(0, i).join(' ')} ${aliased}`
+    }
+  }
+  return item
+}
+
+/**
+ * Rewrite a `font-family` or `font` value, keeping its whitespace and `!important`.
+ */
+function aliasFamilyList(value: string, aliases: Map<string, string>, shorthand: boolean): string {
+  const [, body, important = ''] = /^([\s\S]*?)(\s*!\s*important\s*)?$/i.exec(value) ?? []
+  return (
+    splitFamilyList(body ?? value)
+      .map((item, index) => {
+        const [, lead, family, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(item) ?? ['', '', item, '']
+        const aliased =
+          shorthand && index === 0
+            ? aliasShorthandFamily(family, aliases)
+            : aliasFamily(family, aliases)
+        return lead + aliased + trail
+      })
+      .join(',') + important
+  )
+}
+
+/**
+ * Collect the `font-family` and `font` declarations of a token list and of every rule
+ * nested in it, including @font-face descriptors.
+ */
+function collectFontDeclarations(tokens: ICssToken[], found: ICssDeclaration[]): void {
+  for (const declaration of readDeclarations(tokens)) {
+    // A value with a block is a nested rule like `font:hover { ... }`
+    const isFont = declaration.name === 'font-family' || declaration.name === 'font'
+    if (isFont && declaration.value.length > 0 && !declaration.value.some((t) => t.type === '{')) {
+      found.push(declaration)
+    }
+  }
+  for (const rule of parseCssRules(tokens)) {
+    if (rule.block) {
+      collectFontDeclarations(rule.block, found)
+    }
+  }
+}
+
+/**
+ * Rename the aliased families in the `font-family` and `font` declarations of a CSS
+ * string (a stylesheet or a `style` attribute), including @font-face descriptors.
+ *
+ * @param css - The CSS text
+ * @param aliases - Aliases keyed by lowercase family name
+ * @returns The rewritten CSS
+ *
+ * @example
+ * ```ts
+ * const aliases = new Map([['brand', 'Brand__s1']]);
+ * rewriteFontFamilies('h1 { font: bold 2em Brand, serif }', aliases);
+ * // 'h1 { font: bold 2em "Brand__s1", serif }'
+ * ```
+ */
+export function rewriteFontFamilies(css: string, aliases: Map<string, string>): string {
+  if (aliases.size === 0) {
+    return css
+  }
+  const declarations: ICssDeclaration[] = []
+  collectFontDeclarations(tokenizeCss(css), declarations)
+  let result = ''
+  let offset = 0
+  for (const { name, value } of declarations.sort((a, b) => a.colon.start - b.colon.start)) {
+    const start = value[0].start
+    const end = value[value.length - 1].end
+    result += css.slice(offset, start)
+    result += aliasFamilyList(css.slice(start, end), aliases, name === 'font')
+    offset = end
+  }
+  return result + css.slice(offset)
+}
+
+/**
+ * Rename the font families declared in the `<style>` elements of parsed content to
+ * aliases unique to a render root, and rewrite the `font-family`/`font` declarations
+ * of its `<style>` elements and `style` attributes to match. The same root always
+ * gets the same aliases.
+ *
+ * Call this before the @font-face rules are collected, so the hoisted rules carry
+ * the aliases.
+ *
+ * @param container - The parsed content
+ * @param root - The render root the content is rendered into
+ * @returns The aliases, keyed by lowercase family name
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * scopeFontFamilies(doc, shadowRoot);
+ * await extractAndInjectFontFaces(doc, {}, shadowRoot);
+ * ```
+ */
+export function scopeFontFamilies(container: ParentNode, root: ParentNode): Map<string, string> {
+  const aliases = new Map<string, string>()
+  const styles = Array.from(container.querySelectorAll('style'))
+  for (const style of styles) {
+    for (const rule of extractAtRuleBlocks(stripComments(style.textContent || ''), ['font-face'])) {
+      const family = getFontFaceFamily(rule)
+      if (family && !aliases.has(family.toLowerCase())) {
+        aliases.set(family.toLowerCase(), `${family}__${getRootSuffix(root)}`)
+      }
+    }
+  }
+  if (aliases.size === 0) {
+    return aliases
+  }
+  for (const style of styles) {
+    style.textContent = rewriteFontFamilies(style.textContent || '', aliases)
+  }
+  for (const el of Array.from(container.querySelectorAll('[style]'))) {
+    el.setAttribute('style', rewriteFontFamilies(el.getAttribute('style') || '', aliases))
+  }
+  return aliases
+}